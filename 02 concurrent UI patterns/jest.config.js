@@ -0,0 +1,18 @@
+module.exports = {
+  preset: "ts-jest",
+  testEnvironment: "jsdom",
+  timers: "fake",
+  setupFilesAfterEnv: ["<rootDir>/src/setupTests.ts"],
+  moduleNameMapper: {
+    // Lets act() flush concurrent mode work, and the tests move React's clock along with the fake timers
+    "^scheduler$": "scheduler/unstable_mock",
+  },
+  globals: {
+    "ts-jest": {
+      // Type checking is left to tsc, which also picks up the experimental React typings
+      isolatedModules: true,
+      // The sources use "import * as React", so the suggestion to enable esModuleInterop does not apply
+      diagnostics: { ignoreCodes: [151001] },
+    },
+  },
+};
@@ -0,0 +1,46 @@
+import { DataSource } from "./dataSource";
+import { createResourceCache, ResourceCache } from "./resourceCache";
+import { mockDataSource } from "./mockDataSource";
+import { createHttpDataSource } from "./httpDataSource";
+
+// The backend and the caches every read goes through. The browser renders all of its pages with the
+// default scope, while the server gives each request a scope of its own, so pages rendered at the same
+// time neither share nor invalidate each other's data
+export interface ApiScope {
+  dataSource: DataSource;
+  resourceCache: ResourceCache;
+  reviewerDirectoryCache: ResourceCache;
+  imageCache: ResourceCache;
+}
+
+// API_URL is injected at build time; without it the samples run against the in-memory mock backend
+export const createDefaultDataSource = (): DataSource =>
+  process.env.API_URL ? createHttpDataSource(process.env.API_URL) : mockDataSource;
+
+export const createApiScope = (dataSource: DataSource = createDefaultDataSource()): ApiScope => ({
+  dataSource,
+  // Resolved data is kept for a minute, so navigating back to an already visited reviewer does not suspend again
+  resourceCache: createResourceCache({ ttlMs: 60000, maxSize: 50 }),
+  // Every search and page of the reviewer directory is a resource of its own, so they are kept apart
+  // from the rest and typing in the search box cannot evict reviewer or pull request data
+  reviewerDirectoryCache: createResourceCache({ ttlMs: 60000, maxSize: 20 }),
+  imageCache: createResourceCache({ maxSize: 200 }),
+});
+
+export const defaultApiScope = createApiScope();
+
+let currentScope = defaultApiScope;
+
+export const getApiScope = () => currentScope;
+
+// Renders are synchronous, so everything read while rendering, preloads included, goes through the
+// scope. Reads made later on, once a request has settled, use the scope they were started in
+export const withApiScope = <T>(scope: ApiScope, callback: () => T): T => {
+  const previousScope = currentScope;
+  currentScope = scope;
+  try {
+    return callback();
+  } finally {
+    currentScope = previousScope;
+  }
+};
@@ -0,0 +1,74 @@
+import { wrapPromise, Resource } from "./wrapPromise";
+import { Calculation, CalculationStep, Operator, StepResult } from "./model";
+import { simulateLatency } from "./mockDataSource";
+import { getLatencyProfile } from "./latencyProfile";
+import { createRequestCoalescer } from "./requestCoalescer";
+
+export interface CalculationRun {
+  calculation: Calculation;
+  startedAt: number;
+  steps: Resource<StepResult>[];
+}
+
+const applyOperator = (left: number, operator: Operator, right: number) => {
+  switch (operator) {
+    case "+":
+      return left + right;
+    case "-":
+      return left - right;
+    case "*":
+      return left * right;
+    case "/":
+      if (right === 0) {
+        throw new Error("Cannot divide by zero");
+      }
+      return left / right;
+  }
+};
+
+// Every step asks the mock backend for its operand, taking the delay configured for that step. Jitter,
+// failures and hangs still come from the "calculationStep" entry of the latency profile
+export const fetchStepOperand = (step: CalculationStep, signal?: AbortSignal) => {
+  const latency = { ...getLatencyProfile().calculationStep, delayMs: step.delayMs };
+  return simulateLatency(`${step.operator} ${step.operand}`, latency, () => step.operand, signal);
+};
+
+// Each step becomes its own resource that builds on the previous one, so results can be shown as they come in
+export const startCalculation = (calculation: Calculation): CalculationRun => {
+  const { initialValue, steps, strategy } = calculation;
+  const startedAt = performance.now();
+  const initialResult: StepResult = { value: initialValue, startedAt, settledAt: startedAt };
+
+  const resources = steps.reduce<Resource<StepResult>[]>((previousResources, step) => {
+    const previousResource = previousResources[previousResources.length - 1];
+    // Read lazily, so a retried step picks up the new attempt of the one before it
+    const getPreviousResult = () => previousResource ? previousResource.toPromise() : Promise.resolve(initialResult);
+
+    const resource = wrapPromise<StepResult>(async signal => {
+      if (strategy === "waterfall") {
+        const { value } = await getPreviousResult();
+        const stepStartedAt = performance.now();
+        const operand = await fetchStepOperand(step, signal);
+        return { value: applyOperator(value, step.operator, operand), startedAt: stepStartedAt, settledAt: performance.now() };
+      }
+      const stepStartedAt = performance.now();
+      const operandRequest = fetchStepOperand(step, signal).then(operand => ({ operand, settledAt: performance.now() }));
+      const [{ value }, { operand, settledAt }] = await Promise.all([getPreviousResult(), operandRequest]);
+      return { value: applyOperator(value, step.operator, operand), startedAt: stepStartedAt, settledAt };
+    }, `calculator/${step.operator} ${step.operand}`);
+    return [...previousResources, resource];
+  }, []);
+
+  return { calculation, startedAt, steps: resources };
+};
+
+// The playground recalculates while the calculation is edited, so typing "12345" into an operand would
+// otherwise start five runs of which only the last one is shown. Runs are keyed by the whole calculation
+export const calculationCoalescer = createRequestCoalescer<string, CalculationRun>(
+  key => Promise.resolve(startCalculation(JSON.parse(key))),
+  { debounceMs: 500, label: "calculation" }
+);
+
+// Resolves with the run once it has started; its steps load on their own
+export const requestCalculation = (calculation: Calculation, debounceMs?: number) =>
+  calculationCoalescer.request(JSON.stringify(calculation), debounceMs);
@@ -0,0 +1,20 @@
+import {
+  CodeReviewer, CodeReviewComment, CodeReviewResponse, PullRequest, FileDiff, ReviewerQuery, Page,
+} from "./model";
+
+export interface DataSource {
+  fetchCodeReviewers: (signal?: AbortSignal) => Promise<CodeReviewer[]>;
+  fetchCodeReviewersPage: (query: ReviewerQuery, signal?: AbortSignal) => Promise<Page<CodeReviewer>>;
+  fetchComments: (signal?: AbortSignal) => Promise<CodeReviewComment[]>;
+  fetchReviewer: (id: number, signal?: AbortSignal) => Promise<CodeReviewer>;
+  fetchCommentsForReviewer: (id: number, signal?: AbortSignal) => Promise<CodeReviewComment[]>;
+  fetchResponsesToReviewer: (id: number, signal?: AbortSignal) => Promise<CodeReviewResponse[]>;
+  fetchResponsesToComment: (commentId: number, signal?: AbortSignal) => Promise<CodeReviewResponse[]>;
+  fetchPullRequests: (signal?: AbortSignal) => Promise<PullRequest[]>;
+  fetchPullRequest: (id: number, signal?: AbortSignal) => Promise<PullRequest>;
+  fetchPullRequestReviewers: (id: number, signal?: AbortSignal) => Promise<CodeReviewer[]>;
+  fetchPullRequestComments: (id: number, signal?: AbortSignal) => Promise<CodeReviewComment[]>;
+  fetchFileDiff: (pullRequestId: number, path: string, signal?: AbortSignal) => Promise<FileDiff>;
+  postComment: (reviewerId: number, text: string, signal?: AbortSignal) => Promise<CodeReviewComment>;
+  postResponse: (commentId: number, text: string, signal?: AbortSignal) => Promise<CodeReviewResponse>;
+}
@@ -0,0 +1,154 @@
+import { isAbortError } from "./wrapPromise";
+
+export type RequestStatus = "pending" | "success" | "error" | "aborted";
+
+export interface RequestEntry {
+  kind: "request";
+  id: number;
+  label: string;
+  page: string;
+  startedAt: number;
+  settledAt: number | null;
+  status: RequestStatus;
+  // When a component first tried to read the result; before it settled means that component suspended
+  firstReadAt: number | null;
+}
+
+export interface BoundaryEntry {
+  kind: "boundary";
+  id: number;
+  label: string;
+  page: string;
+  suspendedAt: number;
+  revealedAt: number | null;
+}
+
+export type TimelineEntry = RequestEntry | BoundaryEntry;
+
+export interface RequestTrace {
+  settle(status: RequestStatus): void;
+  markRead(): void;
+}
+
+type Listener = (entries: TimelineEntry[]) => void;
+
+const MAX_ENTRIES = 500;
+
+let entries: TimelineEntry[] = [];
+let nextEntryId = 0;
+let currentPage = "/";
+let notifyScheduled = false;
+const listeners = new Set<Listener>();
+
+// Reads are recorded while rendering, so listeners are only told about changes afterwards
+const scheduleNotify = () => {
+  if (notifyScheduled) {
+    return;
+  }
+  notifyScheduled = true;
+  setTimeout(() => {
+    notifyScheduled = false;
+    listeners.forEach(listener => listener(entries));
+  });
+};
+
+const addEntry = (entry: TimelineEntry) => {
+  entries = [...entries, entry].slice(-MAX_ENTRIES);
+  scheduleNotify();
+};
+
+const updateEntry = <E extends TimelineEntry>(entry: E, changes: Partial<E>): E => {
+  const updatedEntry = { ...entry, ...changes };
+  entries = entries.map(current => current === entry ? updatedEntry : current);
+  scheduleNotify();
+  return updatedEntry;
+};
+
+const now = () => performance.now();
+
+export const getTimeline = () => entries;
+
+export const getTimelinePage = () => currentPage;
+
+// Requests and boundaries recorded from now on are attributed to this page
+export const setTimelinePage = (page: string) => {
+  currentPage = page;
+};
+
+// Preloads start before the page they belong to is shown, so they are attributed to it explicitly
+export const withTimelinePage = <T>(page: string, callback: () => T): T => {
+  const previousPage = currentPage;
+  currentPage = page;
+  try {
+    return callback();
+  } finally {
+    currentPage = previousPage;
+  }
+};
+
+export const traceRequest = (label: string): RequestTrace => {
+  let entry: RequestEntry = {
+    kind: "request",
+    id: nextEntryId++,
+    label,
+    page: currentPage,
+    startedAt: now(),
+    settledAt: null,
+    status: "pending",
+    firstReadAt: null,
+  };
+  addEntry(entry);
+
+  return {
+    settle(status) {
+      if (entry.status === "pending") {
+        entry = updateEntry(entry, { status, settledAt: now() });
+      }
+    },
+    markRead() {
+      if (entry.firstReadAt === null) {
+        entry = updateEntry(entry, { firstReadAt: now() });
+      }
+    },
+  };
+};
+
+export const tracePromise = <T>(label: string, promise: Promise<T>) => {
+  const trace = traceRequest(label);
+  promise.then(
+    () => trace.settle("success"),
+    error => trace.settle(isAbortError(error) ? "aborted" : "error")
+  );
+  return promise;
+};
+
+// Returns a function to call once whatever was shown in the meantime makes way for the content
+export const traceBoundary = (label: string) => {
+  let entry: BoundaryEntry = {
+    kind: "boundary",
+    id: nextEntryId++,
+    label,
+    page: currentPage,
+    suspendedAt: now(),
+    revealedAt: null,
+  };
+  addEntry(entry);
+
+  return () => {
+    if (entry.revealedAt === null) {
+      entry = updateEntry(entry, { revealedAt: now() });
+    }
+  };
+};
+
+export const clearTimeline = () => {
+  entries = [];
+  scheduleNotify();
+};
+
+export const subscribeToTimeline = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
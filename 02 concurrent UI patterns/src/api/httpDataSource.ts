@@ -0,0 +1,47 @@
+import { DataSource } from "./dataSource";
+
+const getJson = async <T>(url: string, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(url, { signal, headers: { Accept: "application/json" } });
+  if (!response.ok) {
+    throw new Error(`GET ${url} failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+const postJson = async <T>(url: string, body: any, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(url, {
+    method: "POST",
+    signal,
+    headers: { Accept: "application/json", "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!response.ok) {
+    throw new Error(`POST ${url} failed with status ${response.status}`);
+  }
+  return response.json();
+};
+
+export const createHttpDataSource = (baseUrl: string): DataSource => {
+  const apiUrl = baseUrl.replace(/\/+$/, "");
+  return {
+    fetchCodeReviewers: signal => getJson(`${apiUrl}/reviewers`, signal),
+    fetchCodeReviewersPage: ({ query = "", page = 1, pageSize = 100, sort = "name" }, signal) => getJson(
+      `${apiUrl}/directory?query=${encodeURIComponent(query)}&page=${page}&pageSize=${pageSize}&sort=${sort}`,
+      signal
+    ),
+    fetchComments: signal => getJson(`${apiUrl}/comments`, signal),
+    fetchReviewer: (id, signal) => getJson(`${apiUrl}/reviewers/${id}`, signal),
+    fetchCommentsForReviewer: (id, signal) => getJson(`${apiUrl}/reviewers/${id}/comments`, signal),
+    fetchResponsesToReviewer: (id, signal) => getJson(`${apiUrl}/reviewers/${id}/responses`, signal),
+    fetchResponsesToComment: (commentId, signal) => getJson(`${apiUrl}/comments/${commentId}/responses`, signal),
+    fetchPullRequests: signal => getJson(`${apiUrl}/pulls`, signal),
+    fetchPullRequest: (id, signal) => getJson(`${apiUrl}/pulls/${id}`, signal),
+    fetchPullRequestReviewers: (id, signal) => getJson(`${apiUrl}/pulls/${id}/reviewers`, signal),
+    fetchPullRequestComments: (id, signal) => getJson(`${apiUrl}/pulls/${id}/comments`, signal),
+    fetchFileDiff: (pullRequestId, path, signal) => getJson(
+      `${apiUrl}/pulls/${pullRequestId}/files?path=${encodeURIComponent(path)}`, signal
+    ),
+    postComment: (reviewerId, text, signal) => postJson(`${apiUrl}/reviewers/${reviewerId}/comments`, { text }, signal),
+    postResponse: (commentId, text, signal) => postJson(`${apiUrl}/comments/${commentId}/responses`, { text }, signal),
+  };
+};
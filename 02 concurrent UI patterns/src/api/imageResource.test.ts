@@ -0,0 +1,35 @@
+import { imageCache } from "./imageResource";
+import { runAllRequests } from "../testUtils";
+
+// setupTests replaces getImageResource for the pages; these tests are about the real one
+const { getImageResource } = jest.requireActual("./imageResource");
+
+const AVATAR = "data:image/svg+xml,avatar";
+
+describe("getImageResource", () => {
+  beforeEach(() => {
+    imageCache.invalidateAll();
+  });
+
+  it("resolves to false when the image does not load within the timeout", async () => {
+    const resource = getImageResource(AVATAR, 100);
+    await runAllRequests();
+
+    expect(resource.read()).toBe(false);
+  });
+
+  it("keeps loads with different timeouts apart", () => {
+    expect(getImageResource(AVATAR, 100)).toBe(getImageResource(AVATAR, 100));
+    expect(getImageResource(AVATAR, 5000)).not.toBe(getImageResource(AVATAR, 100));
+  });
+
+  it("tries a failed image again once the failure has expired", async () => {
+    const resource = getImageResource(AVATAR, 100);
+    await runAllRequests();
+    expect(getImageResource(AVATAR, 100)).toBe(resource);
+
+    jest.spyOn(Date, "now").mockReturnValue(Date.now() + 10001);
+
+    expect(getImageResource(AVATAR, 100)).not.toBe(resource);
+  });
+});
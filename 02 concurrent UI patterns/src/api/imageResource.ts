@@ -0,0 +1,43 @@
+import { defaultApiScope, getApiScope } from "./apiScope";
+
+export const imageCache = defaultApiScope.imageCache;
+
+// A failed or timed out load is only remembered for a while, so the image is tried again later on
+const FAILED_IMAGE_TTL_MS = 10000;
+
+// Resolves to true once the image is downloaded and decoded, or to false if that failed or took
+// longer than the timeout, so that callers can render something else instead of waiting forever
+const loadImage = (src: string, timeoutMs: number) => new Promise<boolean>(resolve => {
+  // The server only renders the img tag, and the browser downloads it along with the page
+  if (typeof Image === "undefined") {
+    resolve(true);
+    return;
+  }
+  const image = new Image();
+  const timeoutId = window.setTimeout(() => resolve(false), timeoutMs);
+  const settle = (loaded: boolean) => {
+    window.clearTimeout(timeoutId);
+    resolve(loaded);
+  };
+  image.onload = () => {
+    if (image.decode) {
+      image.decode().then(() => settle(true), () => settle(false));
+    } else {
+      settle(true);
+    }
+  };
+  image.onerror = () => settle(false);
+  image.src = src;
+});
+
+// A caller willing to wait longer gets a load of its own instead of an earlier one that gave up sooner
+export const getImageResource = (src: string, timeoutMs: number) => {
+  const key = `${timeoutMs}ms/${src}`;
+  const cache = getApiScope().imageCache;
+  return cache.read<boolean>(key, () => loadImage(src, timeoutMs).then(loaded => {
+    if (!loaded) {
+      cache.expire(key, FAILED_IMAGE_TTL_MS);
+    }
+    return loaded;
+  }));
+};
@@ -1,5 +1,41 @@
 export {
   fetchCodeReviewers, fetchComments, fetchCodeReviewData,
-  fetchCodeReviewerData, fetchCommentsForReviewer, fetchReviewer,
-  getAdd3ToResource,
-} from "./myEndPoints";
\ No newline at end of file
+  fetchCodeReviewerData, fetchCommentsForReviewer, fetchReviewer, fetchFreshReviewerData,
+  fetchUsersResponseToReviewer, resourceCache,
+  getDataSource, setDataSource, getCodeReviewersResource,
+  reviewerDirectoryCache, getCodeReviewersPageResource, getCommentsForReviewerResource,
+  postComment, postResponse, getCommentThreadsResource, getResponsesToCommentResource,
+  fetchPullRequests, fetchPullRequest, getPullRequestsResource, fetchPullRequestData,
+  fetchFileDiff, fetchPullRequestDiffData, offlineStore, getOfflineReviewerData, OfflineReviewerData,
+} from "./myEndPoints";
+export { DataSource } from "./dataSource";
+export { ApiScope, createApiScope, createDefaultDataSource, getApiScope, withApiScope } from "./apiScope";
+export {
+  ReviewerQuery, ReviewerSort, Page, PullRequest, PullRequestStatus,
+  Operator, CalculationStep, CalculationStrategy, Calculation, StepResult,
+} from "./model";
+export { startCalculation, requestCalculation, calculationCoalescer, CalculationRun } from "./calculator";
+export { mockDataSource } from "./mockDataSource";
+export { createHttpDataSource } from "./httpDataSource";
+export { createResourceCache, ResourceCache } from "./resourceCache";
+export { createOfflineStore, OfflineStore } from "./offlineStore";
+export { Resource, SerializedResource, createResolvedResource, isAbortError } from "./wrapPromise";
+export {
+  ResourceSnapshot, RESOURCE_SNAPSHOT_VERSION, createResourceSnapshot, stringifyResourceSnapshot, parseResourceSnapshot,
+  whenFullyLoaded, getNestedResources,
+} from "./resourceSnapshot";
+export { createRequestCoalescer, RequestCoalescerStats } from "./requestCoalescer";
+export {
+  MockEndpoint, EndpointLatency, LatencyProfile, LATENCY_PRESETS,
+  getLatencyProfile, setLatencyProfile, updateEndpointLatency, subscribeToLatencyProfile,
+} from "./latencyProfile";
+export { getImageResource } from "./imageResource";
+export {
+  TimelineEntry, RequestEntry, BoundaryEntry, RequestStatus,
+  getTimeline, getTimelinePage, setTimelinePage, withTimelinePage, tracePromise, traceBoundary,
+  clearTimeline, subscribeToTimeline,
+} from "./fetchTimeline";
+export {
+  ServerRenderedData, SERVER_RENDERED_DATA_KEY, getPendingResources, collectServerRenderedData,
+  serializeServerRenderedData, readServerRenderedData, hydrateServerRenderedData,
+} from "./serverRenderedData";
@@ -0,0 +1,139 @@
+export type MockEndpoint =
+  | "pullRequests"
+  | "pullRequest"
+  | "codeReviewers"
+  | "reviewersPage"
+  | "comments"
+  | "fileDiff"
+  | "reviewer"
+  | "commentsForReviewer"
+  | "responsesToReviewer"
+  | "responsesToComment"
+  | "postComment"
+  | "postResponse"
+  | "calculationStep";
+
+export interface EndpointLatency {
+  delayMs: number;
+  jitterMs: number;
+  failureRate: number;
+  hang: boolean;
+}
+
+export type LatencyProfile = Record<MockEndpoint, EndpointLatency>;
+
+const latency = (delayMs: number, overrides: Partial<EndpointLatency> = {}): EndpointLatency => ({
+  delayMs,
+  jitterMs: 0,
+  failureRate: 0,
+  hang: false,
+  ...overrides,
+});
+
+export const LATENCY_PRESETS: Record<string, LatencyProfile> = {
+  // Delays used throughout this sample
+  default: {
+    pullRequests: latency(800),
+    pullRequest: latency(400),
+    fileDiff: latency(300, { jitterMs: 900 }),
+    codeReviewers: latency(1000),
+    reviewersPage: latency(600),
+    comments: latency(2000),
+    reviewer: latency(300),
+    commentsForReviewer: latency(800),
+    responsesToReviewer: latency(1500),
+    responsesToComment: latency(600, { jitterMs: 1200 }),
+    postComment: latency(700),
+    postResponse: latency(700),
+    calculationStep: latency(1800),
+  },
+  // Delays used in "01 concurrent mode basics"
+  basics: {
+    pullRequests: latency(800),
+    pullRequest: latency(400),
+    fileDiff: latency(300, { jitterMs: 900 }),
+    codeReviewers: latency(1000),
+    reviewersPage: latency(600),
+    comments: latency(2000),
+    reviewer: latency(1000),
+    commentsForReviewer: latency(2000),
+    responsesToReviewer: latency(1500),
+    responsesToComment: latency(600, { jitterMs: 1200 }),
+    postComment: latency(700),
+    postResponse: latency(700),
+    calculationStep: latency(1800),
+  },
+  // Random jitter makes requests resolve out of order, which exposes race conditions
+  raceConditions: {
+    pullRequests: latency(300, { jitterMs: 1500 }),
+    pullRequest: latency(300, { jitterMs: 1500 }),
+    fileDiff: latency(300, { jitterMs: 2000 }),
+    codeReviewers: latency(500, { jitterMs: 1500 }),
+    reviewersPage: latency(100, { jitterMs: 1500 }),
+    comments: latency(500, { jitterMs: 1500 }),
+    reviewer: latency(300, { jitterMs: 2000 }),
+    commentsForReviewer: latency(300, { jitterMs: 2000 }),
+    responsesToReviewer: latency(300, { jitterMs: 2000 }),
+    responsesToComment: latency(300, { jitterMs: 2000 }),
+    postComment: latency(100, { jitterMs: 1500 }),
+    postResponse: latency(100, { jitterMs: 1500 }),
+    calculationStep: latency(300, { jitterMs: 2000 }),
+  },
+  // Slower than any useTransition timeout in the sample, so fallbacks show up anyway
+  slow: {
+    pullRequests: latency(4000),
+    pullRequest: latency(4000),
+    fileDiff: latency(4000, { jitterMs: 2000 }),
+    codeReviewers: latency(4000),
+    reviewersPage: latency(4000),
+    comments: latency(6000),
+    reviewer: latency(4000),
+    commentsForReviewer: latency(6000),
+    responsesToReviewer: latency(8000),
+    responsesToComment: latency(4000, { jitterMs: 4000 }),
+    postComment: latency(4000),
+    postResponse: latency(4000),
+    calculationStep: latency(5000),
+  },
+  flaky: {
+    pullRequests: latency(800, { failureRate: 0.5 }),
+    pullRequest: latency(400, { failureRate: 0.5 }),
+    fileDiff: latency(300, { jitterMs: 900, failureRate: 0.5 }),
+    codeReviewers: latency(1000, { failureRate: 0.5 }),
+    reviewersPage: latency(600, { failureRate: 0.5 }),
+    comments: latency(2000, { failureRate: 0.5 }),
+    reviewer: latency(300, { failureRate: 0.5 }),
+    commentsForReviewer: latency(800, { failureRate: 0.5 }),
+    responsesToReviewer: latency(1500, { failureRate: 0.5 }),
+    responsesToComment: latency(600, { jitterMs: 1200, failureRate: 0.5 }),
+    postComment: latency(700, { failureRate: 0.5 }),
+    postResponse: latency(700, { failureRate: 0.5 }),
+    calculationStep: latency(1800, { failureRate: 0.5 }),
+  },
+};
+
+type Listener = (profile: LatencyProfile) => void;
+
+let activeProfile: LatencyProfile = LATENCY_PRESETS.default;
+const listeners = new Set<Listener>();
+
+export const getLatencyProfile = () => activeProfile;
+
+export const setLatencyProfile = (profile: LatencyProfile) => {
+  activeProfile = profile;
+  listeners.forEach(listener => listener(activeProfile));
+};
+
+export const updateEndpointLatency = (endpoint: MockEndpoint, changes: Partial<EndpointLatency>) => {
+  setLatencyProfile({
+    ...activeProfile,
+    [endpoint]: { ...activeProfile[endpoint], ...changes },
+  });
+};
+
+export const subscribeToLatencyProfile = (listener: Listener) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
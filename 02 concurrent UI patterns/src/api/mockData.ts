@@ -0,0 +1,171 @@
+import { CodeReviewer, CodeReviewComment, CodeReviewResponse, PullRequest, FileDiff, DiffLine } from "./model";
+
+const hashText = (text: string) => text.split("").reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) | 0, 7);
+
+const AVATAR_COLORS = ["#e57373", "#64b5f6", "#81c784", "#ffb74d", "#ba68c8", "#4db6ac"];
+
+// Avatars are served as inline SVG, so they work offline and still have to be decoded like any image
+const createAvatarUrl = (name: string) => {
+  const initials = name.split(" ").map(word => word[0]).join("").slice(0, 2).toUpperCase();
+  const color = AVATAR_COLORS[Math.abs(hashText(name)) % AVATAR_COLORS.length];
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="64" height="64">`
+    + `<circle cx="32" cy="32" r="32" fill="${color}"/>`
+    + `<text x="32" y="32" dy=".35em" text-anchor="middle" font-family="sans-serif" font-size="26" fill="#fff">`
+    + `${initials}</text></svg>`;
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
+
+const withAvatar = (user: { name: string, id: number }): CodeReviewer => ({
+  ...user,
+  avatarUrl: createAvatarUrl(user.name),
+});
+
+export const BE_REVIEWERS: CodeReviewer[] = [
+  { name: "Marioli", id: 3 },
+  { name: "Carlos", id: 5 },
+  { name: "Lucia", id: 7 },
+].map(withAvatar);
+
+const FIRST_NAMES = [
+  "Ana", "Bruno", "Carmen", "Daniel", "Elena", "Fernando", "Gloria", "Hugo", "Irene", "Javier",
+  "Karla", "Luis", "Marta", "Nicolas", "Olga", "Pablo", "Rocio", "Sergio", "Teresa", "Victor",
+];
+
+const LAST_NAMES = [
+  "Garcia", "Lopez", "Martin", "Sanchez", "Perez", "Gomez", "Ruiz", "Diaz", "Moreno", "Alonso",
+  "Romero", "Navarro", "Torres", "Dominguez", "Vazquez", "Ramos", "Gil", "Serrano", "Blanco", "Molina",
+];
+
+// Everybody who can review code, not only the reviewers of the pull request: 400 generated users
+// after the three above, enough for filtering and sorting them to take noticeable time
+export const BE_USERS: CodeReviewer[] = [
+  ...BE_REVIEWERS,
+  ...LAST_NAMES.reduce<CodeReviewer[]>((users, lastName, lastNameIndex) => [
+    ...users,
+    ...FIRST_NAMES.map((firstName, firstNameIndex) => withAvatar({
+      name: `${firstName} ${lastName}`,
+      id: 100 + lastNameIndex * FIRST_NAMES.length + firstNameIndex,
+    })),
+  ], []),
+];
+
+export const BE_COMMENTS: CodeReviewComment[] = [
+  {
+    id: 0, pullRequestId: 1, reviewerId: 3, path: "src/api/myEndPoints.ts", line: 12,
+    text: "I do not like this true here, I will create a constant with a meaning name",
+  },
+  { id: 1, pullRequestId: 1, reviewerId: 3, text: "From my point of view make the code less readable" },
+  { id: 2, pullRequestId: 1, reviewerId: 3, path: "src/pages/detailsPage.tsx", line: 30, text: "What does it do?" },
+  { id: 3, pullRequestId: 1, reviewerId: 5, text: "Please, refactor to functional component" },
+  { id: 4, pullRequestId: 1, reviewerId: 5, text: "The trees do not let you see the forest" },
+  { id: 5, pullRequestId: 1, reviewerId: 7, text: "No comments" },
+  { id: 6, pullRequestId: 2, reviewerId: 5, text: "Why do we need another loading spinner?" },
+  {
+    id: 7, pullRequestId: 2, reviewerId: 121, path: "src/components/button.tsx", line: 9,
+    text: "The timeout should come from the config",
+  },
+  {
+    id: 9, pullRequestId: 4, reviewerId: 3, path: "src/api/generatedClient.ts", line: 3000,
+    text: "Can we stop committing generated code?",
+  },
+  { id: 8, pullRequestId: 3, reviewerId: 7, text: "Nice cleanup!" },
+];
+
+export const BE_RESPONSES: CodeReviewResponse[] = [
+  { id: 0, text: 'WAT', reviewerId: 3, parentCommentId: 0 },
+  { id: 1, text: 'I don\'t like trees', reviewerId: 5, parentCommentId: 4 },
+  { id: 2, text: 'OK', reviewerId: 7, parentCommentId: 5 },
+];
+
+export const BE_PULL_REQUESTS: PullRequest[] = [
+  {
+    id: 1,
+    title: "Fetch reviewer data with Suspense",
+    author: "Alejandro",
+    status: "open",
+    reviewerIds: [3, 5, 7],
+    filesChanged: ["src/api/myEndPoints.ts", "src/pages/detailsPage.tsx"],
+  },
+  {
+    id: 2,
+    title: "Show a pending indicator while transitioning",
+    author: "Marioli",
+    status: "open",
+    reviewerIds: [5, 121],
+    filesChanged: ["src/components/button.tsx", "src/pages/reviewerDetailsApp.tsx"],
+  },
+  {
+    id: 3,
+    title: "Remove the class based error boundary",
+    author: "Carlos",
+    status: "merged",
+    reviewerIds: [7],
+    filesChanged: ["src/pages/errorBoundary.tsx"],
+  },
+  {
+    id: 4,
+    title: "Regenerate the API client",
+    author: "Lucia",
+    status: "open",
+    reviewerIds: [3],
+    filesChanged: ["src/api/generatedClient.ts", "src/api/generatedTypes.ts", "src/api/index.ts"],
+  },
+];
+
+// Generated files make for the 5,000 line diff of pull request 4; every other file changes 120 lines
+const BE_DIFF_LINE_COUNTS: Record<string, number> = {
+  "src/api/generatedClient.ts": 4000,
+  "src/api/generatedTypes.ts": 880,
+};
+
+const DIFF_HUNK_SIZE = 100;
+
+const CODE_TEMPLATES = [
+  (n: number) => `const value${n} = computeValue(${n});`,
+  (n: number) => `if (value${n} === true) {`,
+  (n: number) => `  return fetchCodeReviewerData(${n});`,
+  (n: number) => `}`,
+  (n: number) => `// TODO: review line ${n}`,
+  (n: number) => `export const helper${n} = () => value${n} + 3;`,
+];
+
+// Seeded, so the same file always produces the same diff
+const createRandom = (seed: number) => () => {
+  seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+  return seed / 0x7fffffff;
+};
+
+const toHunk = (lines: DiffLine[]) => {
+  const oldLines = lines.filter(line => line.oldLine !== null);
+  const newLines = lines.filter(line => line.newLine !== null);
+  const oldStart = oldLines.length ? oldLines[0].oldLine : 0;
+  const newStart = newLines.length ? newLines[0].newLine : 0;
+  return {
+    header: `@@ -${oldStart},${oldLines.length} +${newStart},${newLines.length} @@`,
+    lines,
+  };
+};
+
+export const generateFileDiff = (path: string): FileDiff => {
+  const lineCount = BE_DIFF_LINE_COUNTS[path] || 120;
+  const random = createRandom(hashText(path));
+  const lines: DiffLine[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (let n = 0; n < lineCount; n++) {
+    const roll = random();
+    const content = CODE_TEMPLATES[Math.floor(random() * CODE_TEMPLATES.length)](n);
+    if (roll < 0.15) {
+      lines.push({ type: "remove", content, oldLine: oldLine++, newLine: null });
+    } else if (roll < 0.4) {
+      lines.push({ type: "add", content, oldLine: null, newLine: newLine++ });
+    } else {
+      lines.push({ type: "context", content, oldLine: oldLine++, newLine: newLine++ });
+    }
+  }
+  const hunks = [];
+  for (let start = 0; start < lines.length; start += DIFF_HUNK_SIZE) {
+    hunks.push(toHunk(lines.slice(start, start + DIFF_HUNK_SIZE)));
+  }
+  return { path, hunks };
+};
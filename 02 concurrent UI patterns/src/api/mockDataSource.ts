@@ -0,0 +1,133 @@
+import { DataSource } from "./dataSource";
+import { CodeReviewer, ReviewerQuery, Page } from "./model";
+import { BE_REVIEWERS, BE_USERS, BE_COMMENTS, BE_RESPONSES, BE_PULL_REQUESTS, generateFileDiff } from "./mockData";
+import { createAbortError } from "./wrapPromise";
+import { MockEndpoint, EndpointLatency, getLatencyProfile } from "./latencyProfile";
+
+const compareReviewers = (sort: string) => {
+  const field = sort.replace(/^-/, "");
+  const direction = sort.startsWith("-") ? -1 : 1;
+  return (a: CodeReviewer, b: CodeReviewer) =>
+    direction * (field === "id" ? a.id - b.id : a.name.localeCompare(b.name));
+};
+
+const searchReviewers = ({ query = "", page = 1, pageSize = 100, sort = "name" }: ReviewerQuery): Page<CodeReviewer> => {
+  const normalizedQuery = query.trim().toLowerCase();
+  const matches = BE_USERS
+    .filter(user => user.name.toLowerCase().includes(normalizedQuery))
+    .sort(compareReviewers(sort));
+  return {
+    items: matches.slice((page - 1) * pageSize, page * pageSize),
+    page,
+    pageSize,
+    total: matches.length,
+  };
+};
+
+// Like a real backend, validation errors are only found out once the request reaches the server
+const validateText = (text: string) => {
+  if (text.trim() === "") {
+    throw new Error("The text cannot be empty");
+  }
+  return text.trim();
+};
+
+const findPullRequest = (id: number) => {
+  const pullRequest = BE_PULL_REQUESTS.find(pr => pr.id === id);
+  if (!pullRequest) {
+    throw new Error(`Pull request ${id} does not exist`);
+  }
+  return pullRequest;
+};
+
+const nextId = (items: { id: number }[]) => items.reduce((maxId, item) => Math.max(maxId, item.id), -1) + 1;
+
+// Resolves after the given latency, unless the signal is aborted first, mimicking a cancellable request.
+// Depending on the latency the request may also fail or never settle at all
+export const simulateLatency = <T>(
+  name: string, latency: EndpointLatency, getResponse: () => T, signal?: AbortSignal
+) =>
+  new Promise<T>((resolve, reject) => {
+    if (signal && signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const { delayMs, jitterMs, failureRate, hang } = latency;
+    let timeoutId: ReturnType<typeof setTimeout>;
+    if (!hang) {
+      timeoutId = setTimeout(() => {
+        if (Math.random() < failureRate) {
+          reject(new Error(`Mock request to "${name}" failed`));
+        } else {
+          try {
+            resolve(getResponse());
+          } catch (error) {
+            reject(error);
+          }
+        }
+      }, delayMs + Math.round(Math.random() * jitterMs));
+    }
+    if (signal) {
+      signal.addEventListener("abort", () => {
+        clearTimeout(timeoutId);
+        reject(createAbortError());
+      });
+    }
+  });
+
+export const simulateRequest = <T>(endpoint: MockEndpoint, getResponse: () => T, signal?: AbortSignal) =>
+  simulateLatency(endpoint, getLatencyProfile()[endpoint], getResponse, signal);
+
+export const mockDataSource: DataSource = {
+  fetchCodeReviewers: signal => simulateRequest("codeReviewers", () => BE_REVIEWERS, signal),
+  fetchComments: signal => simulateRequest("comments", () => BE_COMMENTS, signal),
+  fetchCodeReviewersPage: (query, signal) => simulateRequest("reviewersPage", () => searchReviewers(query), signal),
+  fetchReviewer: (id, signal) => simulateRequest(
+    "reviewer", () => BE_USERS.find(reviewer => reviewer.id === id), signal
+  ),
+  fetchCommentsForReviewer: (id, signal) => simulateRequest(
+    "commentsForReviewer", () => BE_COMMENTS.filter(comment => comment.reviewerId === id), signal
+  ),
+  fetchResponsesToReviewer: (id, signal) => simulateRequest(
+    "responsesToReviewer", () => BE_RESPONSES.filter(response => response.reviewerId === id), signal
+  ),
+  fetchResponsesToComment: (commentId, signal) => simulateRequest(
+    "responsesToComment", () => BE_RESPONSES.filter(response => response.parentCommentId === commentId), signal
+  ),
+  fetchPullRequests: signal => simulateRequest("pullRequests", () => BE_PULL_REQUESTS, signal),
+  fetchPullRequest: (id, signal) => simulateRequest("pullRequest", () => findPullRequest(id), signal),
+  fetchPullRequestReviewers: (id, signal) => simulateRequest("codeReviewers", () => {
+    const { reviewerIds } = findPullRequest(id);
+    return BE_USERS.filter(user => reviewerIds.includes(user.id));
+  }, signal),
+  fetchPullRequestComments: (id, signal) => simulateRequest(
+    "comments", () => BE_COMMENTS.filter(comment => comment.pullRequestId === id), signal
+  ),
+  fetchFileDiff: (pullRequestId, path, signal) => simulateRequest("fileDiff", () => {
+    if (!findPullRequest(pullRequestId).filesChanged.includes(path)) {
+      throw new Error(`${path} is not changed by pull request ${pullRequestId}`);
+    }
+    return generateFileDiff(path);
+  }, signal),
+  postComment: (reviewerId, text, signal) => simulateRequest("postComment", () => {
+    // Comments posted from the reviewer view go to the first pull request this reviewer takes part in
+    const pullRequest = BE_PULL_REQUESTS.find(pr => pr.reviewerIds.includes(reviewerId)) || BE_PULL_REQUESTS[0];
+    const comment = { id: nextId(BE_COMMENTS), pullRequestId: pullRequest.id, reviewerId, text: validateText(text) };
+    BE_COMMENTS.push(comment);
+    return comment;
+  }, signal),
+  postResponse: (commentId, text, signal) => simulateRequest("postResponse", () => {
+    const comment = BE_COMMENTS.find(c => c.id === commentId);
+    if (!comment) {
+      throw new Error(`Comment ${commentId} does not exist`);
+    }
+    const response = {
+      id: nextId(BE_RESPONSES),
+      reviewerId: comment.reviewerId,
+      parentCommentId: commentId,
+      text: validateText(text),
+    };
+    BE_RESPONSES.push(response);
+    return response;
+  }, signal),
+};
@@ -0,0 +1,93 @@
+export interface CodeReviewer {
+  name: string;
+  id: number;
+  avatarUrl: string;
+}
+
+export interface CodeReviewComment {
+  id: number,
+  text: string,
+  reviewerId: number,
+  pullRequestId: number,
+  // Inline comments are anchored to a line of the new version of a file
+  path?: string,
+  line?: number,
+}
+
+export type PullRequestStatus = "open" | "merged" | "closed";
+
+export interface PullRequest {
+  id: number;
+  title: string;
+  author: string;
+  status: PullRequestStatus;
+  reviewerIds: number[];
+  filesChanged: string[];
+}
+
+export interface CodeReviewResponse {
+  id: number,
+  text: string,
+  reviewerId: number,
+  parentCommentId: number,
+}
+
+export type DiffLineType = "context" | "add" | "remove";
+
+export interface DiffLine {
+  type: DiffLineType;
+  content: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface DiffHunk {
+  header: string;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  path: string;
+  hunks: DiffHunk[];
+}
+
+export type ReviewerSort = "name" | "-name" | "id" | "-id";
+
+export interface ReviewerQuery {
+  query?: string;
+  page?: number;
+  pageSize?: number;
+  sort?: ReviewerSort;
+}
+
+export interface Page<T> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export type Operator = "+" | "-" | "*" | "/";
+
+export interface CalculationStep {
+  id: number;
+  operator: Operator;
+  operand: number;
+  delayMs: number;
+}
+
+// A waterfall only asks for a step's operand once the previous step is done, parallel asks for all of them at once
+export type CalculationStrategy = "waterfall" | "parallel";
+
+export interface Calculation {
+  initialValue: number;
+  steps: CalculationStep[];
+  strategy: CalculationStrategy;
+}
+
+export interface StepResult {
+  value: number;
+  // performance.now() timestamps of the request for the step's operand
+  startedAt: number;
+  settledAt: number;
+}
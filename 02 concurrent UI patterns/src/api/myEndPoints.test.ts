@@ -0,0 +1,291 @@
+import {
+  resourceCache, getDataSource, setDataSource, getCodeReviewersResource, fetchCodeReviewData,
+  fetchPullRequests, fetchPullRequest, fetchPullRequestReviewers, fetchPullRequestComments, fetchFileDiff,
+  getPullRequestsResource, getPullRequestResource, getPullRequestCommentsResource, fetchPullRequestData,
+  getPullRequestFilesResource, fetchPullRequestDiffData, fetchCodeReviewers, reviewerDirectoryCache,
+  getCodeReviewersPageResource, fetchComments, fetchReviewer, fetchCommentsForReviewer,
+  getCommentsForReviewerResource, fetchCodeReviewerData, fetchResponsesToComment, getResponsesToCommentResource,
+  getCommentThreadsResource, fetchFreshReviewerData, fetchUsersResponseToReviewer, postComment, postResponse,
+} from "./myEndPoints";
+import { mockDataSource } from "./mockDataSource";
+import { DataSource } from "./dataSource";
+import { runAllRequests } from "../testUtils";
+
+const settle = async <T>(promise: Promise<T>) => {
+  await runAllRequests();
+  return promise;
+};
+
+// The expectation is attached before the timers run, so the rejection never goes unhandled
+const expectRejection = async (promise: Promise<unknown>, message: string) => {
+  const assertion = expect(promise).rejects.toThrow(message);
+  await runAllRequests();
+  await assertion;
+};
+
+const readSettled = async <T>(resource: { read(): T }) => {
+  await runAllRequests();
+  return resource.read();
+};
+
+const ids = (items: { id: number }[]) => items.map(item => item.id);
+
+describe("myEndPoints", () => {
+  describe("fetch functions", () => {
+    it("fetchCodeReviewers resolves the pull request reviewers", async () => {
+      const reviewers = await settle(fetchCodeReviewers());
+      expect(reviewers.map(reviewer => reviewer.name)).toEqual(["Marioli", "Carlos", "Lucia"]);
+    });
+
+    it("fetchComments resolves every comment", async () => {
+      const comments = await settle(fetchComments());
+      expect(comments.length).toBeGreaterThan(0);
+    });
+
+    it("fetchReviewer resolves a single reviewer", async () => {
+      const reviewer = await settle(fetchReviewer(5));
+      expect(reviewer.name).toBe("Carlos");
+    });
+
+    it("fetchCommentsForReviewer only resolves that reviewer's comments", async () => {
+      const comments = await settle(fetchCommentsForReviewer(5));
+      expect(comments.every(comment => comment.reviewerId === 5)).toBe(true);
+      expect(ids(comments)).toEqual(expect.arrayContaining([3, 4, 6]));
+    });
+
+    it("fetchUsersResponseToReviewer resolves the responses written by the reviewer", async () => {
+      const responses = await settle(fetchUsersResponseToReviewer(3));
+      expect(responses.map(response => response.text)).toEqual(["WAT"]);
+    });
+
+    it("fetchResponsesToComment resolves the replies to a comment", async () => {
+      const responses = await settle(fetchResponsesToComment(4));
+      expect(responses.map(response => response.text)).toEqual(["I don't like trees"]);
+    });
+
+    it("fetchCodeReviewers searches, sorts and pages the directory when given a query", async () => {
+      const page = await settle(fetchCodeReviewers({ query: "garcia", page: 1, pageSize: 5, sort: "-name" }));
+      expect(page.total).toBe(20);
+      expect(page.items).toHaveLength(5);
+      expect(page.items[0].name).toBe("Victor Garcia");
+    });
+
+    it("fetchPullRequests resolves every pull request", async () => {
+      const pullRequests = await settle(fetchPullRequests());
+      expect(ids(pullRequests)).toEqual([1, 2, 3, 4]);
+    });
+
+    it("fetchPullRequest resolves a single pull request", async () => {
+      const pullRequest = await settle(fetchPullRequest(1));
+      expect(pullRequest.title).toBe("Fetch reviewer data with Suspense");
+    });
+
+    it("fetchPullRequest rejects unknown pull requests", async () => {
+      await expectRejection(fetchPullRequest(99), "Pull request 99 does not exist");
+    });
+
+    it("fetchPullRequestReviewers resolves the reviewers of a pull request", async () => {
+      const reviewers = await settle(fetchPullRequestReviewers(2));
+      expect(ids(reviewers)).toEqual([5, 121]);
+    });
+
+    it("fetchPullRequestComments resolves the comments on a pull request", async () => {
+      const comments = await settle(fetchPullRequestComments(2));
+      expect(ids(comments)).toEqual([6, 7]);
+    });
+
+    it("fetchFileDiff resolves the diff of a changed file", async () => {
+      const diff = await settle(fetchFileDiff(1, "src/api/myEndPoints.ts"));
+      expect(diff.path).toBe("src/api/myEndPoints.ts");
+      expect(diff.hunks.length).toBeGreaterThan(0);
+    });
+
+    it("fetchFileDiff rejects files the pull request does not change", async () => {
+      await expectRejection(fetchFileDiff(1, "README.md"), "README.md is not changed");
+    });
+
+    it("rejects with an AbortError once the signal is aborted", async () => {
+      const controller = new AbortController();
+      const request = fetchReviewer(3, controller.signal);
+
+      controller.abort();
+
+      await expect(request).rejects.toHaveProperty("name", "AbortError");
+    });
+  });
+
+  describe("resources", () => {
+    it("getCodeReviewersResource suspends until the reviewers arrive and is cached", async () => {
+      const resource = getCodeReviewersResource();
+      expect(resource.getStatus()).toBe("pending");
+
+      expect(ids(await readSettled(resource))).toEqual([3, 5, 7]);
+      expect(getCodeReviewersResource()).toBe(resource);
+    });
+
+    it("getCodeReviewersResource fetches a failed request again once the failure has expired", async () => {
+      jest.spyOn(mockDataSource, "fetchCodeReviewers").mockRejectedValueOnce(new Error("Server error"));
+      const failed = getCodeReviewersResource();
+      await runAllRequests();
+      expect(failed.getStatus()).toBe("error");
+      expect(getCodeReviewersResource()).toBe(failed);
+
+      jest.spyOn(Date, "now").mockReturnValue(Date.now() + 5001);
+
+      const resource = getCodeReviewersResource();
+      expect(resource).not.toBe(failed);
+      expect(ids(await readSettled(resource))).toEqual([3, 5, 7]);
+    });
+
+    it("fetchCodeReviewData starts reviewers and comments", async () => {
+      const { reviewers, comments } = fetchCodeReviewData();
+      expect(ids(await readSettled(reviewers))).toEqual([3, 5, 7]);
+      expect(comments.read().length).toBeGreaterThan(0);
+    });
+
+    it("getPullRequestsResource resolves every pull request", async () => {
+      expect(ids(await readSettled(getPullRequestsResource()))).toEqual([1, 2, 3, 4]);
+    });
+
+    it("getPullRequestResource and getPullRequestCommentsResource resolve one pull request", async () => {
+      const pullRequest = getPullRequestResource(2);
+      const comments = getPullRequestCommentsResource(2);
+      expect((await readSettled(pullRequest)).author).toBe("Marioli");
+      expect(ids(comments.read())).toEqual([6, 7]);
+    });
+
+    it("fetchPullRequestData starts everything the details page needs", async () => {
+      const data = fetchPullRequestData(1);
+      expect(data.id).toBe(1);
+      expect((await readSettled(data.pullRequest)).id).toBe(1);
+      expect(ids(data.reviewers.read())).toEqual([3, 5, 7]);
+      expect(ids(data.comments.read())).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    it("getPullRequestFilesResource gives every changed file its own diff resource", async () => {
+      const files = await readSettled(getPullRequestFilesResource(1));
+      expect(files.map(file => file.path)).toEqual(["src/api/myEndPoints.ts", "src/pages/detailsPage.tsx"]);
+
+      await runAllRequests();
+      expect(files[1].diff.read().path).toBe("src/pages/detailsPage.tsx");
+    });
+
+    it("fetchPullRequestDiffData starts everything the diff page needs", async () => {
+      const data = fetchPullRequestDiffData(2);
+      expect((await readSettled(data.files)).map(file => file.path)).toEqual([
+        "src/components/button.tsx", "src/pages/reviewerDetailsApp.tsx",
+      ]);
+      expect(data.pullRequest.read().id).toBe(2);
+      expect(ids(data.comments.read())).toEqual([6, 7]);
+    });
+
+    it("getCodeReviewersPageResource caches every query separately", async () => {
+      const firstPage = getCodeReviewersPageResource({ query: "", page: 1, pageSize: 10 });
+      const secondPage = getCodeReviewersPageResource({ query: "", page: 2, pageSize: 10 });
+
+      expect(secondPage).not.toBe(firstPage);
+      expect(getCodeReviewersPageResource({ query: "", page: 1, pageSize: 10 })).toBe(firstPage);
+      expect((await readSettled(secondPage)).page).toBe(2);
+    });
+
+    it("getCodeReviewersPageResource keeps directory pages out of the shared resource cache", async () => {
+      const reviewer = fetchCodeReviewerData(3).reviewer;
+      for (let page = 1; page <= 60; page++) {
+        getCodeReviewersPageResource({ query: "", page, pageSize: 10 });
+      }
+
+      expect(fetchCodeReviewerData(3).reviewer).toBe(reviewer);
+      expect(resourceCache.has("reviewersPage/name/10/1/")).toBe(false);
+      expect(reviewerDirectoryCache.has("reviewersPage/name/10/60/")).toBe(true);
+      await runAllRequests();
+    });
+
+    it("getCommentsForReviewerResource resolves the reviewer's comments", async () => {
+      const comments = await readSettled(getCommentsForReviewerResource(7));
+      expect(comments.every(comment => comment.reviewerId === 7)).toBe(true);
+      expect(comments.map(comment => comment.text)).toContain("No comments");
+    });
+
+    it("fetchCodeReviewerData starts everything the reviewer page needs", async () => {
+      const data = fetchCodeReviewerData(3);
+      expect((await readSettled(data.reviewer)).name).toBe("Marioli");
+      expect(data.comments.read().every(comment => comment.reviewerId === 3)).toBe(true);
+      expect(data.responses.read().map(response => response.text)).toEqual(["WAT"]);
+      expect(data.threads.read().length).toBe(data.comments.read().length);
+    });
+
+    it("getResponsesToCommentResource resolves the replies to a comment", async () => {
+      const responses = await readSettled(getResponsesToCommentResource(5));
+      expect(responses.map(response => response.text)).toEqual(["OK"]);
+    });
+
+    it("getCommentThreadsResource pairs every comment with its replies", async () => {
+      const threads = await readSettled(getCommentThreadsResource(5));
+      const thread = threads.find(({ comment }) => comment.id === 4);
+
+      await runAllRequests();
+      expect(thread.responses.read().map(response => response.text)).toEqual(["I don't like trees"]);
+    });
+
+    it("fetchFreshReviewerData bypasses the cache", async () => {
+      const first = fetchFreshReviewerData(3);
+      const second = fetchFreshReviewerData(3);
+
+      expect(second.reviewer).not.toBe(first.reviewer);
+      expect((await readSettled(second.reviewer)).name).toBe("Marioli");
+    });
+  });
+
+  describe("writes", () => {
+    it("postComment stores the comment and invalidates the reviewer's cached comments", async () => {
+      const comments = getCommentsForReviewerResource(7);
+      await readSettled(comments);
+
+      const comment = await settle(postComment(7, "  Looks good to me  "));
+
+      expect(comment.text).toBe("Looks good to me");
+      expect(resourceCache.has("comments/7")).toBe(false);
+      expect(ids(await readSettled(getCommentsForReviewerResource(7)))).toContain(comment.id);
+    });
+
+    it("postComment rejects empty comments", async () => {
+      await expectRejection(postComment(7, "   "), "The text cannot be empty");
+    });
+
+    it("postResponse stores the reply and invalidates the cached replies to the comment", async () => {
+      await readSettled(getResponsesToCommentResource(1));
+
+      const response = await settle(postResponse(1, "Agreed"));
+
+      expect(response.parentCommentId).toBe(1);
+      expect(resourceCache.has("responses/comment/1")).toBe(false);
+      expect((await readSettled(getResponsesToCommentResource(1))).map(r => r.text)).toContain("Agreed");
+    });
+  });
+
+  describe("data source", () => {
+    let originalDataSource: DataSource;
+
+    beforeEach(() => {
+      originalDataSource = getDataSource();
+    });
+
+    afterEach(() => {
+      setDataSource(originalDataSource);
+    });
+
+    it("defaults to the mock backend", () => {
+      expect(originalDataSource).toBe(mockDataSource);
+    });
+
+    it("setDataSource swaps the backend and clears the cache", async () => {
+      const reviewers = getCodeReviewersResource();
+      setDataSource({ ...mockDataSource, fetchCodeReviewers: () => Promise.resolve([{ id: 1, name: "Stub", avatarUrl: "" }]) });
+
+      const stubbedReviewers = getCodeReviewersResource();
+
+      expect(stubbedReviewers).not.toBe(reviewers);
+      expect((await readSettled(stubbedReviewers)).map(reviewer => reviewer.name)).toEqual(["Stub"]);
+    });
+  });
+});
@@ -1,114 +1,241 @@
-import { wrapPromise } from "./wrapPromise";
+import { wrapPromise, Resource } from "./wrapPromise";
+import { createOfflineStore } from "./offlineStore";
+import { whenFullyLoaded, getNestedResources } from "./resourceSnapshot";
+import {
+  CodeReviewer, CodeReviewComment, CodeReviewResponse, PullRequest, FileDiff, ReviewerQuery, Page,
+} from "./model";
+import { DataSource } from "./dataSource";
+import { defaultApiScope, getApiScope, withApiScope } from "./apiScope";
 
-interface CodeReviewer {
-  name: string;
-  id: number;
-}
+// The caches of the default scope, which every page rendered in the browser reads through
+export const resourceCache = defaultApiScope.resourceCache;
+
+export const reviewerDirectoryCache = defaultApiScope.reviewerDirectoryCache;
+
+// Reviewer data is also saved in localStorage, so reloading the page shows the last known data right away
+export const offlineStore = createOfflineStore({ prefix: "offline-data/", maxAgeMs: 24 * 60 * 60 * 1000 });
+
+export const getDataSource = () => getApiScope().dataSource;
+
+const getResourceCache = () => getApiScope().resourceCache;
+
+// Swaps the backend of the browser, e.g. for a stub in tests
+export const setDataSource = (nextDataSource: DataSource) => {
+  defaultApiScope.dataSource = nextDataSource;
+  resourceCache.invalidateAll();
+  reviewerDirectoryCache.invalidateAll();
+  offlineStore.clear();
+};
 
-const BE_REVIEWERS = [
-  { name: "Marioli", id: 3 },
-  { name: "Carlos", id: 5 },
-  { name: "Lucia", id: 7 },
-];
-
-const BE_COMMENTS = [
-  { id: 0, reviewerId: 3, text: "I do not like this true here, I will create a constant with a meaning name" },
-  { id: 1, reviewerId: 3, text: "From my point of view make the code less readable" },
-  { id: 2, reviewerId: 3, text: "What does it do?" },
-  { id: 3, reviewerId: 5, text: "Please, refactor to functional component" },
-  { id: 4, reviewerId: 5, text: "The trees do not let you see the forest" },
-  { id: 5, reviewerId: 7, text: "No comments" },
-];
+export const getCodeReviewersResource = () =>
+  getResourceCache().read<CodeReviewer[]>("reviewers", signal => fetchCodeReviewers(signal));
 
 export const fetchCodeReviewData = () => {
-  const codeReviewersPromise = fetchCodeReviewers();
-  const commentsPromise = fetchComments();
   return {
-    reviewers: wrapPromise<CodeReviewer[]>(codeReviewersPromise),
-    comments: wrapPromise<CodeReviewComment[]>(commentsPromise),
+    reviewers: getCodeReviewersResource(),
+    comments: getResourceCache().read<CodeReviewComment[]>("comments", fetchComments),
   }
 };
 
-export const fetchCodeReviewers = () => {
-  console.log("fetching code reviewer...");
-  return new Promise<CodeReviewer[]>(resolve => {
-    setTimeout(() => {
-      console.log("fetched reviewers");
-      resolve(BE_REVIEWERS);
-    }, 1000);
-  });
-};
+export const fetchPullRequests = (signal?: AbortSignal) => getDataSource().fetchPullRequests(signal);
 
-interface CodeReviewComment {
-  id: number,
-  text: string,
-  reviewerId: number,
-}
+export const fetchPullRequest = (id: number, signal?: AbortSignal) => getDataSource().fetchPullRequest(id, signal);
 
-export const fetchComments = () => {
-  console.log("fetching comments...");
-  return new Promise<CodeReviewComment[]>(resolve => {
-    setTimeout(() => {
-      console.log("fetched comments");
-      resolve(BE_COMMENTS);
-    }, 2000);
-  });
+export const fetchPullRequestReviewers = (id: number, signal?: AbortSignal) =>
+  getDataSource().fetchPullRequestReviewers(id, signal);
+
+export const fetchPullRequestComments = (id: number, signal?: AbortSignal) =>
+  getDataSource().fetchPullRequestComments(id, signal);
+
+export const fetchFileDiff = (pullRequestId: number, path: string, signal?: AbortSignal) =>
+  getDataSource().fetchFileDiff(pullRequestId, path, signal);
+
+export const getPullRequestsResource = () => getResourceCache().read<PullRequest[]>("pulls", fetchPullRequests);
+
+export const getPullRequestResource = (id: number) =>
+  getResourceCache().read<PullRequest>(`pulls/${id}`, signal => fetchPullRequest(id, signal));
+
+export const getPullRequestCommentsResource = (id: number) =>
+  getResourceCache().read<CodeReviewComment[]>(`pulls/${id}/comments`, signal => fetchPullRequestComments(id, signal));
+
+export const fetchPullRequestData = (id: number) => {
+  return {
+    id,
+    pullRequest: getPullRequestResource(id),
+    reviewers: getResourceCache().read<CodeReviewer[]>(`pulls/${id}/reviewers`, signal => fetchPullRequestReviewers(id, signal)),
+    comments: getPullRequestCommentsResource(id),
+  }
 };
 
-export const fetchReviewer = (id: number) => {
-  console.log("fetching code reviewer...", id);
-  return new Promise<CodeReviewer>(resolve => {
-    setTimeout(() => {
-      console.log("fetched reviewer", id);
-      resolve(BE_REVIEWERS.find(reviewer => reviewer.id === id));
-    }, 300);
+// Diffs of every changed file are requested in parallel as soon as the pull request arrives,
+// each one in its own resource so files can be shown one by one
+export const getPullRequestFilesResource = (id: number) => {
+  const scope = getApiScope();
+  return scope.resourceCache.read(`pulls/${id}/files`, () => {
+    const pullRequest = getPullRequestResource(id);
+    pullRequest.retry();
+    return pullRequest.toPromise().then(({ filesChanged }) => withApiScope(scope, () => filesChanged.map(path => ({
+      path,
+      diff: getResourceCache().read<FileDiff>(`pulls/${id}/files/${path}`, signal => fetchFileDiff(id, path, signal)),
+    }))));
   });
 };
 
-export const fetchCommentsForReviewer = (id: number) => {
-  console.log("fetching comments...", id);
-  return new Promise<CodeReviewComment[]>(resolve => {
-    setTimeout(() => {
-      console.log("fetched comments", id);
-      resolve(BE_COMMENTS.filter(comment => comment.reviewerId === id));
-    }, 800);
-  });
+export const fetchPullRequestDiffData = (id: number) => {
+  return {
+    id,
+    pullRequest: getPullRequestResource(id),
+    files: getPullRequestFilesResource(id),
+    comments: getPullRequestCommentsResource(id),
+  }
+};
+
+interface FetchCodeReviewers {
+  (signal?: AbortSignal): Promise<CodeReviewer[]>;
+  (query: ReviewerQuery, signal?: AbortSignal): Promise<Page<CodeReviewer>>;
+}
+
+const isReviewerQuery = (value: ReviewerQuery | AbortSignal): value is ReviewerQuery =>
+  Boolean(value) && !("aborted" in value);
+
+// Without a query: the reviewers of the pull request. With one: a page of the reviewer directory,
+// searched by name and sorted
+export const fetchCodeReviewers: FetchCodeReviewers = (
+  queryOrSignal?: ReviewerQuery | AbortSignal, signal?: AbortSignal
+): Promise<any> =>
+  isReviewerQuery(queryOrSignal)
+    ? getDataSource().fetchCodeReviewersPage(queryOrSignal, signal)
+    : getDataSource().fetchCodeReviewers(queryOrSignal);
+
+export const getCodeReviewersPageResource = (query: ReviewerQuery) => {
+  const { query: text = "", page = 1, pageSize = 100, sort = "name" } = query;
+  return getApiScope().reviewerDirectoryCache.read<Page<CodeReviewer>>(
+    `reviewersPage/${sort}/${pageSize}/${page}/${text}`,
+    signal => fetchCodeReviewers({ query: text, page, pageSize, sort }, signal)
+  );
 };
 
+export const fetchComments = (signal?: AbortSignal) => getDataSource().fetchComments(signal);
+
+export const fetchReviewer = (id: number, signal?: AbortSignal) => getDataSource().fetchReviewer(id, signal);
+
+export const fetchCommentsForReviewer = (id: number, signal?: AbortSignal) =>
+  getDataSource().fetchCommentsForReviewer(id, signal);
+
+export const getCommentsForReviewerResource = (id: number) =>
+  getResourceCache().read<CodeReviewComment[]>(`comments/${id}`, signal => fetchCommentsForReviewer(id, signal));
+
 export const fetchCodeReviewerData = (id: number) => {
-  const codeReviewerPromise = fetchReviewer(id);
-  const commentsForReviewerPromise = fetchCommentsForReviewer(id);
-  const responsesToReviewerPromise = fetchUsersResponseToReviewer(id);
   return {
     id,
-    reviewer: wrapPromise<CodeReviewer>(codeReviewerPromise),
-    comments: wrapPromise<CodeReviewComment[]>(commentsForReviewerPromise),
-    responses: wrapPromise<CodeReviewComment[]>(responsesToReviewerPromise),
+    reviewer: getResourceCache().read<CodeReviewer>(`reviewer/${id}`, signal => fetchReviewer(id, signal)),
+    comments: getCommentsForReviewerResource(id),
+    responses: getResourceCache().read<CodeReviewResponse[]>(`responses/${id}`, signal => fetchUsersResponseToReviewer(id, signal)),
+    threads: getCommentThreadsResource(id),
   }
 };
 
-const fetchUsersResponseToReviewer = (id: number) => {
-  console.log("fetching responses...", id);
-  return new Promise<CodeReviewComment[]>(resolve => {
-    setTimeout(() => {
-      console.log("fetched responses", id);
-      resolve([
-        { id: 0, text: 'WAT', reviewerId: 3 },
-        { id: 0, text: 'I don\'t like trees', reviewerId: 5 },
-        { id: 0, text: 'OK', reviewerId: 7 },
-      ].filter(r => r.reviewerId === id));
-    }, 1500);
+export const fetchResponsesToComment = (commentId: number, signal?: AbortSignal) =>
+  getDataSource().fetchResponsesToComment(commentId, signal);
+
+export const getResponsesToCommentResource = (commentId: number) =>
+  getResourceCache().read<CodeReviewResponse[]>(`responses/comment/${commentId}`, signal => fetchResponsesToComment(commentId, signal));
+
+// Replies to every comment start loading as soon as the comments arrive, each one in its own resource,
+// so that every thread can be revealed on its own
+export const getCommentThreadsResource = (id: number) => {
+  const scope = getApiScope();
+  return scope.resourceCache.read(`threads/${id}`, () => {
+    const comments = getCommentsForReviewerResource(id);
+    // Retrying failed threads retries the comments they are built on as well
+    comments.retry();
+    return comments.toPromise().then(comments => withApiScope(scope, () =>
+      comments.map(comment => ({ comment, responses: getResponsesToCommentResource(comment.id) }))
+    ));
   });
 };
 
-export const add3To = (value: number) => {
-  return new Promise<number>(resolve => {
-    setTimeout(() => { resolve(value + 3) }, 1800);
-  });
+export interface OfflineReviewerData {
+  reviewer?: Resource<CodeReviewer>;
+  reviewers?: Resource<CodeReviewer[]>;
+  threads?: ReturnType<typeof getCommentThreadsResource>;
+  // Resolves once the fresh data has fully loaded, replies included, or with false when it failed
+  revalidated: Promise<boolean>;
+  // Requests the fresh data that failed again, and resolves like revalidated
+  retry: () => Promise<boolean>;
+}
+
+// Retries the resource when it failed, and every failed resource nested in its value
+const retryFailed = (resource: Resource<any>) => {
+  resource.retry();
+  getNestedResources(resource.peek()).forEach(retryFailed);
+};
+
+// Saves the fresh resource once it loads, and hands out the one saved last time while it is still loading
+const readOffline = <T>(key: string, resource: Resource<T>): Resource<T> | undefined => {
+  offlineStore.save(key, resource);
+  return resource.getStatus() === "success" ? undefined : offlineStore.read<T>(key);
+};
+
+// Stale while revalidate: the reviewer data saved on a previous visit, for everything not loaded yet.
+// The fresh data is requested as usual; null when there is nothing saved to show in the meantime
+export const getOfflineReviewerData = (id: number): OfflineReviewerData | null => {
+  const reviewer = getResourceCache().read<CodeReviewer>(`reviewer/${id}`, signal => fetchReviewer(id, signal));
+  const reviewers = getCodeReviewersResource();
+  const threads = getCommentThreadsResource(id);
+  const offline = {
+    reviewer: readOffline(`reviewer/${id}`, reviewer),
+    reviewers: readOffline("reviewers", reviewers),
+    threads: readOffline(`threads/${id}`, threads),
+  };
+  if (!offline.reviewer && !offline.reviewers && !offline.threads) {
+    return null;
+  }
+  const fresh: Record<string, Resource<any>> = { [`reviewer/${id}`]: reviewer, reviewers, [`threads/${id}`]: threads };
+  const whenRevalidated = () =>
+    Promise.all(Object.keys(fresh).map(key => whenFullyLoaded(fresh[key]))).then(() => true, () => false);
+  return {
+    ...offline,
+    revalidated: whenRevalidated(),
+    retry: () => {
+      Object.keys(fresh).forEach(key => {
+        retryFailed(fresh[key]);
+        offlineStore.save(key, fresh[key]);
+      });
+      return whenRevalidated();
+    },
+  };
 };
 
-export const getAdd3ToResource = (value: number) => (
-  {
-    result: wrapPromise<number>(add3To(value)),
+// Bypasses the resource cache, so every call hits the backend again
+export const fetchFreshReviewerData = (id: number) => ({
+  id,
+  reviewer: wrapPromise<CodeReviewer>(signal => fetchReviewer(id, signal), `fresh/reviewer/${id}`),
+  comments: wrapPromise<CodeReviewComment[]>(signal => fetchCommentsForReviewer(id, signal), `fresh/comments/${id}`),
+});
+
+export const fetchUsersResponseToReviewer = (id: number, signal?: AbortSignal) =>
+  getDataSource().fetchResponsesToReviewer(id, signal);
+
+// Writes invalidate the cached reads they affect, so the next read shows server truth
+export const postComment = async (reviewerId: number, text: string) => {
+  const { dataSource, resourceCache: cache } = getApiScope();
+  try {
+    const comment = await dataSource.postComment(reviewerId, text);
+    cache.invalidate(`pulls/${comment.pullRequestId}/comments`);
+    return comment;
+  } finally {
+    cache.invalidate("comments");
+    cache.invalidate(`comments/${reviewerId}`);
+    cache.invalidate(`threads/${reviewerId}`);
   }
-);
+};
+
+export const postResponse = async (commentId: number, text: string) => {
+  const { dataSource, resourceCache: cache } = getApiScope();
+  const response = await dataSource.postResponse(commentId, text);
+  cache.invalidate(`responses/${response.reviewerId}`);
+  cache.invalidate(`responses/comment/${commentId}`);
+  cache.invalidate(`threads/${response.reviewerId}`);
+  return response;
+};
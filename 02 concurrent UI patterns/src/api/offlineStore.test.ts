@@ -0,0 +1,93 @@
+import { wrapPromise, createResolvedResource } from "./wrapPromise";
+import { createOfflineStore } from "./offlineStore";
+import { resourceCache, getOfflineReviewerData } from "./myEndPoints";
+import { runAllRequests } from "../testUtils";
+
+const createStore = () => createOfflineStore({ prefix: "test/", maxAgeMs: 1000 });
+
+describe("createOfflineStore", () => {
+  it("saves a resource once it has loaded and reads it back loaded", async () => {
+    const store = createStore();
+    store.save("reviewer/3", wrapPromise(Promise.resolve({ name: "Marioli" })));
+    expect(store.read("reviewer/3")).toBeUndefined();
+
+    await runAllRequests();
+
+    const resource = store.read<{ name: string }>("reviewer/3");
+    expect(resource.getStatus()).toBe("success");
+    expect(resource.read().name).toBe("Marioli");
+  });
+
+  it("waits for the resources nested in the value", async () => {
+    const store = createStore();
+    let resolveReplies: (replies: string[]) => void;
+    const replies = wrapPromise(new Promise<string[]>(resolve => resolveReplies = resolve));
+    store.save("threads/3", createResolvedResource([{ id: 1, replies }]));
+    await runAllRequests();
+    expect(store.read("threads/3")).toBeUndefined();
+
+    resolveReplies(["Thanks"]);
+    await runAllRequests();
+
+    const [thread] = store.read<{ replies: typeof replies }[]>("threads/3").read();
+    expect(thread.replies.read()).toEqual(["Thanks"]);
+  });
+
+  it("keeps the saved data when a later request fails", async () => {
+    const store = createStore();
+    store.save("reviewer/3", createResolvedResource({ name: "Marioli" }));
+    await runAllRequests();
+
+    store.save("reviewer/3", wrapPromise(() => Promise.reject(new Error("Server error"))));
+    await runAllRequests();
+
+    expect(store.read<{ name: string }>("reviewer/3").read().name).toBe("Marioli");
+  });
+
+  it("drops data older than the max age", async () => {
+    const store = createStore();
+    store.save("reviewer/3", createResolvedResource({ name: "Marioli" }));
+    await runAllRequests();
+    jest.spyOn(Date, "now").mockReturnValue(Date.now() + 1001);
+
+    expect(store.read("reviewer/3")).toBeUndefined();
+    expect(localStorage.getItem("test/reviewer/3")).toBeNull();
+  });
+
+  it("clear only removes its own keys", async () => {
+    const store = createStore();
+    localStorage.setItem("other", "kept");
+    store.save("reviewer/3", createResolvedResource({ name: "Marioli" }));
+    await runAllRequests();
+
+    store.clear();
+
+    expect(store.read("reviewer/3")).toBeUndefined();
+    expect(localStorage.getItem("other")).toBe("kept");
+  });
+});
+
+describe("getOfflineReviewerData", () => {
+  it("is null until the reviewer data has been saved", async () => {
+    expect(getOfflineReviewerData(3)).toBeNull();
+    await runAllRequests();
+  });
+
+  it("hands out the saved data while the fresh data revalidates", async () => {
+    getOfflineReviewerData(3);
+    await runAllRequests();
+    resourceCache.invalidateAll();
+
+    const offline = getOfflineReviewerData(3);
+    const revalidated = jest.fn();
+    offline.revalidated.then(revalidated);
+
+    expect(offline.reviewer.read().name).toBe("Marioli");
+    expect(offline.reviewers.read().map(reviewer => reviewer.name)).toEqual(["Marioli", "Carlos", "Lucia"]);
+    expect(offline.threads.read()[0].responses.getStatus()).toBe("success");
+    expect(resourceCache.getPending().length).toBeGreaterThan(0);
+
+    await runAllRequests();
+    expect(revalidated).toHaveBeenCalledWith(true);
+  });
+});
@@ -0,0 +1,79 @@
+import { Resource } from "./wrapPromise";
+import {
+  createResourceSnapshot, reviveResource, whenFullyLoaded, stringifyResourceSnapshot, parseResourceSnapshot,
+} from "./resourceSnapshot";
+
+export interface OfflineStoreOptions {
+  // Prefix of every localStorage key the store writes
+  prefix: string;
+  // Saved data older than this is dropped instead of shown
+  maxAgeMs: number;
+}
+
+// The server and private browsing modes may have no localStorage at all
+const getStorage = (): Storage | null => {
+  try {
+    return typeof localStorage === "undefined" ? null : localStorage;
+  } catch (error) {
+    return null;
+  }
+};
+
+// Keeps loaded resources in localStorage, one snapshot per key, so they outlive a reload of the page
+export const createOfflineStore = ({ prefix, maxAgeMs }: OfflineStoreOptions) => {
+  // Resources already waiting to be saved, so reading the same one again does not save it twice
+  const saving = new WeakSet<Resource<any>>();
+
+  const remove = (key: string) => {
+    const storage = getStorage();
+    if (storage) {
+      storage.removeItem(prefix + key);
+    }
+  };
+
+  return {
+    // The resource saved under the key, already loaded, unless it is older than the max age
+    read<T>(key: string): Resource<T> | undefined {
+      const storage = getStorage();
+      const snapshot = storage && parseResourceSnapshot(storage.getItem(prefix + key));
+      if (!snapshot || !snapshot.entries[key]) {
+        return undefined;
+      }
+      if (Date.now() - snapshot.createdAt > maxAgeMs) {
+        remove(key);
+        return undefined;
+      }
+      return reviveResource<T>(snapshot.entries[key], key);
+    },
+    // Saves the resource once it has fully loaded; failed requests leave the saved data alone
+    save(key: string, resource: Resource<any>) {
+      const storage = getStorage();
+      if (!storage || saving.has(resource)) {
+        return;
+      }
+      saving.add(resource);
+      whenFullyLoaded(resource).then(
+        () => {
+          try {
+            storage.setItem(prefix + key, stringifyResourceSnapshot(createResourceSnapshot({ [key]: resource })));
+          } catch (error) {
+            // The storage is full; the data is simply not available offline
+          }
+        },
+        // Once retried, the resource is saved when it loads after all
+        () => saving.delete(resource)
+      );
+    },
+    remove,
+    clear() {
+      const storage = getStorage();
+      if (!storage) {
+        return;
+      }
+      const keys = Array.from({ length: storage.length }, (_, index) => storage.key(index));
+      keys.filter(key => key.startsWith(prefix)).forEach(key => storage.removeItem(key));
+    },
+  };
+};
+
+export type OfflineStore = ReturnType<typeof createOfflineStore>;
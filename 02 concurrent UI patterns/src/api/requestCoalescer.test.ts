@@ -0,0 +1,65 @@
+import { createRequestCoalescer } from "./requestCoalescer";
+import { isAbortError, createAbortError, RELEASE_GRACE_MS } from "./wrapPromise";
+import { flushPromises } from "../testUtils";
+
+const createFetcher = (delayMs = 100) => jest.fn((key: number, signal: AbortSignal) => new Promise<number>((resolve, reject) => {
+  const timeoutId = setTimeout(() => resolve(key + 3), delayMs);
+  signal.addEventListener("abort", () => {
+    clearTimeout(timeoutId);
+    reject(createAbortError());
+  });
+}));
+
+const advance = async (ms: number) => {
+  jest.advanceTimersByTime(ms);
+  await flushPromises();
+};
+
+describe("createRequestCoalescer", () => {
+  it("only starts the request of the last input once the debounce has passed", async () => {
+    const fetcher = createFetcher();
+    const coalescer = createRequestCoalescer(fetcher, { debounceMs: 300 });
+
+    const superseded = coalescer.request(1);
+    await advance(100);
+    const latest = coalescer.request(12);
+    await advance(300);
+    await advance(100);
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(fetcher).toHaveBeenCalledWith(12, expect.anything());
+    const supersededState = superseded.getState();
+    expect(supersededState.status === "error" && isAbortError(supersededState.error)).toBe(true);
+    expect(latest.read()).toBe(15);
+    expect(coalescer.getStats()).toEqual({ requested: 2, started: 1, consumed: 1, cancelled: 0 });
+  });
+
+  it("hands out the latest resource again for the same input", () => {
+    const fetcher = createFetcher();
+    const coalescer = createRequestCoalescer(fetcher, { debounceMs: 300 });
+
+    expect(coalescer.request(1)).toBe(coalescer.request(1));
+  });
+
+  it("starts right away without a debounce", async () => {
+    const fetcher = createFetcher();
+    const coalescer = createRequestCoalescer(fetcher, { debounceMs: 300 });
+
+    coalescer.request(1, 0);
+    await flushPromises();
+
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it("cancels a started request once a newer input has replaced it and nobody reads it", async () => {
+    const fetcher = createFetcher(5000);
+    const coalescer = createRequestCoalescer(fetcher);
+
+    coalescer.request(1);
+    await flushPromises();
+    coalescer.request(2);
+    await advance(RELEASE_GRACE_MS);
+
+    expect(coalescer.getStats()).toEqual({ requested: 2, started: 2, consumed: 0, cancelled: 1 });
+  });
+});
@@ -0,0 +1,141 @@
+import { wrapPromise, Resource, createAbortError, isAbortError } from "./wrapPromise";
+
+export interface RequestCoalescerOptions {
+  debounceMs?: number;
+  // Prefix for the resources in the fetch timeline
+  label?: string;
+}
+
+export interface RequestCoalescerStats {
+  // Calls to request(), one per input the user produced
+  requested: number;
+  // Requests that actually reached the backend
+  started: number;
+  // Started requests whose result was still wanted by someone when it arrived
+  consumed: number;
+  // Started requests cancelled because every reader had moved on
+  cancelled: number;
+}
+
+type KeyedFetcher<K, T> = (key: K, signal: AbortSignal) => Promise<T>;
+
+type StatsListener = (stats: RequestCoalescerStats) => void;
+
+interface InFlightRequest<T> {
+  promise: Promise<T>;
+  controller: AbortController;
+  readers: number;
+}
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timeoutId = window.setTimeout(resolve, ms);
+    signal.addEventListener("abort", () => {
+      window.clearTimeout(timeoutId);
+      reject(createAbortError());
+    });
+  });
+
+// Hands out one resource per input, but only the latest input is kept alive: it waits for the
+// debounce before starting a request, identical inputs share the request already in flight, and
+// superseded inputs let go of theirs, which is cancelled once nobody else reads it
+export const createRequestCoalescer = <K, T>(fetcher: KeyedFetcher<K, T>, options: RequestCoalescerOptions = {}) => {
+  let debounceMs = options.debounceMs || 0;
+  const label = options.label || "coalesced";
+  let stats: RequestCoalescerStats = { requested: 0, started: 0, consumed: 0, cancelled: 0 };
+  const inFlight = new Map<K, InFlightRequest<T>>();
+  const listeners = new Set<StatsListener>();
+  let latest: { key: K; resource: Resource<T>; release: () => void } | null = null;
+
+  const updateStats = (changes: Partial<RequestCoalescerStats>) => {
+    stats = { ...stats, ...changes };
+    listeners.forEach(listener => listener(stats));
+  };
+
+  const startRequest = (key: K): InFlightRequest<T> => {
+    const controller = new AbortController();
+    const request: InFlightRequest<T> = { promise: fetcher(key, controller.signal), controller, readers: 0 };
+    inFlight.set(key, request);
+    updateStats({ started: stats.started + 1 });
+
+    const settle = () => {
+      if (inFlight.get(key) === request) {
+        inFlight.delete(key);
+      }
+    };
+    request.promise.then(
+      () => {
+        settle();
+        if (request.readers > 0) {
+          updateStats({ consumed: stats.consumed + 1 });
+        }
+      },
+      error => {
+        settle();
+        if (isAbortError(error)) {
+          updateStats({ cancelled: stats.cancelled + 1 });
+        }
+      }
+    );
+    return request;
+  };
+
+  // Joins the request in flight for this key, starting one if there is none
+  const join = (key: K, signal: AbortSignal) => {
+    const request = inFlight.get(key) || startRequest(key);
+    request.readers++;
+    signal.addEventListener("abort", () => {
+      request.readers--;
+      if (request.readers === 0) {
+        request.controller.abort();
+      }
+    });
+    return request.promise;
+  };
+
+  return {
+    request(key: K, requestDebounceMs: number = debounceMs): Resource<T> {
+      updateStats({ requested: stats.requested + 1 });
+      if (latest && latest.key === key && latest.resource.getStatus() !== "error") {
+        return latest.resource;
+      }
+
+      const resource: Resource<T> = wrapPromise<T>(async signal => {
+        if (requestDebounceMs > 0) {
+          await wait(requestDebounceMs, signal);
+          // A newer input arrived while this one waited, so its request is never started
+          if (!latest || latest.resource !== resource) {
+            throw createAbortError();
+          }
+        }
+        return join(key, signal);
+      }, `${label}/${key}`);
+      if (latest) {
+        latest.release();
+      }
+      // The coalescer holds on to the latest resource itself; pages that render an older one
+      // retain it on their own, so it is only cancelled once they stop showing it
+      latest = { key, resource, release: resource.retain() };
+      return resource;
+    },
+    getStats() {
+      return stats;
+    },
+    setDebounceMs(ms: number) {
+      debounceMs = ms;
+    },
+    getDebounceMs() {
+      return debounceMs;
+    },
+    subscribe(listener: StatsListener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+};
@@ -0,0 +1,113 @@
+import { wrapPromise, Resource, Fetcher, isAbortError } from "./wrapPromise";
+import { ResourceSnapshot, createResourceSnapshot, isResourceSnapshot, reviveResource } from "./resourceSnapshot";
+
+interface CacheEntry {
+  resource: Resource<any>;
+  expiresAt: number;
+}
+
+export interface ResourceCacheOptions {
+  ttlMs?: number;
+  maxSize?: number;
+  // How long a failed request keeps being handed out, long enough for the readers that are rendering
+  // it to show the error, after which it is fetched again
+  errorTtlMs?: number;
+}
+
+export const createResourceCache = (options: ResourceCacheOptions = {}) => {
+  const { ttlMs = Infinity, maxSize = Infinity, errorTtlMs = 5000 } = options;
+  // A Map keeps insertion order, so its first key is always the least recently used one
+  const entries = new Map<string, CacheEntry>();
+
+  // Aborted entries were given up by every reader, so they are fetched again instead of rethrowing
+  const isUsable = (entry: CacheEntry) => {
+    if (entry.expiresAt <= Date.now()) {
+      return false;
+    }
+    const state = entry.resource.getState();
+    return !(state.status === "error" && isAbortError(state.error));
+  };
+
+  // Keeps the entry for at most ttlMs from now, e.g. once its value turns out not to be worth keeping
+  const expire = (key: string, ttlMs: number) => {
+    const entry = entries.get(key);
+    if (entry) {
+      entry.expiresAt = Math.min(entry.expiresAt, Date.now() + ttlMs);
+    }
+  };
+
+  const evictOverflow = () => {
+    while (entries.size > maxSize) {
+      const oldestKey = entries.keys().next().value;
+      entries.delete(oldestKey);
+    }
+  };
+
+  return {
+    read<T>(key: string, fetcher: Fetcher<T>, entryTtlMs: number = ttlMs): Resource<T> {
+      const entry = entries.get(key);
+      if (entry && isUsable(entry)) {
+        entries.delete(key);
+        entries.set(key, entry);
+        return entry.resource;
+      }
+
+      const resource = wrapPromise<T>(signal => new Promise<T>(resolve => resolve(fetcher(signal))).catch(error => {
+        // The key may hold a newer request by now, which has not failed
+        if (entries.has(key) && entries.get(key).resource === resource) {
+          expire(key, errorTtlMs);
+        }
+        throw error;
+      }), key);
+      entries.delete(key);
+      entries.set(key, { resource, expiresAt: Date.now() + entryTtlMs });
+      evictOverflow();
+      return resource;
+    },
+    getPending(): Resource<any>[] {
+      return Array.from(entries.values())
+        .filter(entry => isUsable(entry) && entry.resource.getStatus() === "pending")
+        .map(entry => entry.resource);
+    },
+    // The loaded entries, e.g. for the server to embed in the page or to save for offline use
+    snapshot(): ResourceSnapshot {
+      const resources: Record<string, Resource<any>> = {};
+      entries.forEach((entry, key) => {
+        if (isUsable(entry)) {
+          resources[key] = entry.resource;
+        }
+      });
+      return createResourceSnapshot(resources);
+    },
+    // Fills in the entries of a snapshot that this cache does not hold yet, so reading them does not
+    // fetch them again. Returns the keys that were restored
+    restore(snapshot: ResourceSnapshot, entryTtlMs: number = ttlMs): string[] {
+      if (!isResourceSnapshot(snapshot)) {
+        return [];
+      }
+      return Object.keys(snapshot.entries).filter(key => {
+        const entry = entries.get(key);
+        const resource = !entry || !isUsable(entry) ? reviveResource(snapshot.entries[key], key) : undefined;
+        if (resource) {
+          entries.delete(key);
+          entries.set(key, { resource, expiresAt: Date.now() + entryTtlMs });
+          evictOverflow();
+        }
+        return Boolean(resource);
+      });
+    },
+    expire,
+    has(key: string) {
+      const entry = entries.get(key);
+      return Boolean(entry) && isUsable(entry);
+    },
+    invalidate(key: string) {
+      entries.delete(key);
+    },
+    invalidateAll() {
+      entries.clear();
+    },
+  };
+};
+
+export type ResourceCache = ReturnType<typeof createResourceCache>;
@@ -0,0 +1,110 @@
+import { wrapPromise, createResolvedResource } from "./wrapPromise";
+import {
+  ResourceSnapshot, RESOURCE_SNAPSHOT_VERSION, createResourceSnapshot, stringifyResourceSnapshot, parseResourceSnapshot,
+} from "./resourceSnapshot";
+import { createResourceCache } from "./resourceCache";
+import { resourceCache, fetchCodeReviewerData } from "./myEndPoints";
+import { mockDataSource } from "./mockDataSource";
+import { runAllRequests } from "../testUtils";
+
+// A hand written snapshot, the way a test or a page could ship one
+const reviewerFixture: ResourceSnapshot = {
+  version: RESOURCE_SNAPSHOT_VERSION,
+  createdAt: 0,
+  entries: {
+    "reviewer/3": { $resource: "success", value: { id: 3, name: "Marioli", avatarUrl: "marioli.png" } },
+    "comments/3": { $resource: "success", value: [{ id: 1, text: "What does it do?", reviewerId: 3, pullRequestId: 1 }] },
+  },
+};
+
+describe("resource serialization", () => {
+  it("a loaded resource serializes its value", async () => {
+    const resource = wrapPromise(Promise.resolve({ name: "Marioli" }));
+    expect(resource.toJSON()).toEqual({ $resource: "pending" });
+
+    await runAllRequests();
+    expect(JSON.parse(JSON.stringify(resource))).toEqual({ $resource: "success", value: { name: "Marioli" } });
+  });
+
+  it("a failed resource serializes its message only", async () => {
+    const resource = wrapPromise(() => Promise.reject(new Error("Server error")));
+    await runAllRequests();
+
+    expect(resource.toJSON()).toEqual({ $resource: "error", message: "Server error" });
+  });
+
+  it("createResolvedResource reads without suspending or fetching", () => {
+    const resource = createResolvedResource({ name: "Carlos" }, "reviewer/2");
+
+    expect(resource.getStatus()).toBe("success");
+    expect(resource.read()).toEqual({ name: "Carlos" });
+  });
+});
+
+describe("resource snapshots", () => {
+  it("only keeps the loaded resources", async () => {
+    const loaded = wrapPromise(Promise.resolve([1, 2]));
+    await runAllRequests();
+
+    const snapshot = createResourceSnapshot({ loaded, pending: wrapPromise(new Promise<number[]>(() => undefined)) });
+    expect(Object.keys(snapshot.entries)).toEqual(["loaded"]);
+  });
+
+  it("round trips through a string and restores nested resources", async () => {
+    const source = createResourceCache();
+    source.read("threads", () => Promise.resolve([{ id: 1, responses: createResolvedResource(["Thanks"]) }]));
+    await runAllRequests();
+
+    const snapshot = parseResourceSnapshot(stringifyResourceSnapshot(source.snapshot()));
+    const target = createResourceCache();
+    const fetcher = jest.fn();
+
+    expect(target.restore(snapshot)).toEqual(["threads"]);
+    const [thread] = target.read<any[]>("threads", fetcher).read();
+    expect(thread.responses.read()).toEqual(["Thanks"]);
+    expect(fetcher).not.toHaveBeenCalled();
+  });
+
+  it("skips values whose nested resources had not loaded", () => {
+    const cache = createResourceCache();
+    const restored = cache.restore({
+      version: RESOURCE_SNAPSHOT_VERSION,
+      createdAt: 0,
+      entries: { threads: { $resource: "success", value: [{ id: 1, responses: { $resource: "pending" } }] } },
+    });
+
+    expect(restored).toEqual([]);
+    expect(cache.has("threads")).toBe(false);
+  });
+
+  it("does not replace entries the cache already holds", () => {
+    const cache = createResourceCache();
+    const current = cache.read("reviewer/3", () => new Promise(() => undefined));
+
+    expect(cache.restore(reviewerFixture)).toEqual(["comments/3"]);
+    expect(cache.read("reviewer/3", jest.fn())).toBe(current);
+  });
+
+  it("escapes markup so the snapshot can be embedded in a script tag", () => {
+    const snapshot = createResourceSnapshot({ text: createResolvedResource("</script>") });
+    expect(stringifyResourceSnapshot(snapshot)).not.toContain("</script>");
+  });
+
+  it("ignores text that is not a snapshot in the current format", () => {
+    expect(parseResourceSnapshot("not json")).toBeNull();
+    expect(parseResourceSnapshot(JSON.stringify({ ...reviewerFixture, version: RESOURCE_SNAPSHOT_VERSION + 1 }))).toBeNull();
+  });
+
+  it("satisfies fetchCodeReviewerData from a fixture without a request", () => {
+    const fetchReviewer = jest.spyOn(mockDataSource, "fetchReviewer");
+    const fetchComments = jest.spyOn(mockDataSource, "fetchCommentsForReviewer");
+    resourceCache.restore(reviewerFixture);
+
+    const { reviewer, comments } = fetchCodeReviewerData(3);
+
+    expect(reviewer.read().name).toBe("Marioli");
+    expect(comments.read()[0].text).toBe("What does it do?");
+    expect(fetchReviewer).not.toHaveBeenCalled();
+    expect(fetchComments).not.toHaveBeenCalled();
+  });
+});
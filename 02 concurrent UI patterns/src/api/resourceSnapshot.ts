@@ -0,0 +1,97 @@
+import { Resource, SerializedResource, createResolvedResource } from "./wrapPromise";
+
+// Bumped whenever the format changes, so snapshots saved by an older version are ignored
+export const RESOURCE_SNAPSHOT_VERSION = 1;
+
+// The loaded entries of a resource cache, as plain JSON. It can be embedded in html, saved to
+// localStorage or written by hand as a test fixture, and restored into any resource cache
+export interface ResourceSnapshot {
+  version: number;
+  createdAt: number;
+  entries: Record<string, SerializedResource<any>>;
+}
+
+const isSerializedResource = (value: any): value is SerializedResource<any> =>
+  Boolean(value) && typeof value === "object" && typeof value.$resource === "string";
+
+// Values can hold resources of their own, like the replies of every comment thread, which are
+// serialized along with them. Those are turned back into resources, or the value cannot be restored
+// at all when any of them had not loaded
+const reviveValue = (value: any, label: string): any => {
+  if (Array.isArray(value)) {
+    const items = value.map(item => reviveValue(item, label));
+    return items.includes(undefined) ? undefined : items;
+  }
+  if (isSerializedResource(value)) {
+    return reviveResource(value, label);
+  }
+  if (value && typeof value === "object") {
+    const revived = {};
+    for (const key of Object.keys(value)) {
+      revived[key] = reviveValue(value[key], label);
+      if (revived[key] === undefined && value[key] !== undefined) {
+        return undefined;
+      }
+    }
+    return revived;
+  }
+  return value;
+};
+
+// Only loaded resources can be restored; undefined means the data has to be fetched
+export const reviveResource = <T>(serialized: SerializedResource<T>, label: string): Resource<T> | undefined => {
+  if (serialized.$resource !== "success") {
+    return undefined;
+  }
+  const value = reviveValue(serialized.value, label);
+  return value === undefined ? undefined : createResolvedResource(value, label);
+};
+
+const isResource = (value: any): value is Resource<any> =>
+  Boolean(value) && typeof value.toJSON === "function" && typeof value.toPromise === "function";
+
+// The resources in a value, e.g. the ones a page preloads, without looking inside the resources themselves
+export const getNestedResources = (value: any): Resource<any>[] => {
+  if (isResource(value)) {
+    return [value];
+  }
+  if (value && typeof value === "object") {
+    return Object.keys(value).reduce((resources, key) => [...resources, ...getNestedResources(value[key])], []);
+  }
+  return [];
+};
+
+// Settles once the resource and every resource nested in its value have loaded, so that a snapshot
+// taken afterwards holds all of it. Rejects when any of them fails
+export const whenFullyLoaded = async (resource: Resource<any>): Promise<void> => {
+  const value = await resource.toPromise();
+  await Promise.all(getNestedResources(value).map(whenFullyLoaded));
+};
+
+export const createResourceSnapshot = (resources: Record<string, Resource<any>>): ResourceSnapshot => {
+  const entries: Record<string, SerializedResource<any>> = {};
+  Object.keys(resources).forEach(key => {
+    if (resources[key].getStatus() === "success") {
+      // Round trips through JSON so nested resources are serialized too
+      entries[key] = JSON.parse(JSON.stringify(resources[key]));
+    }
+  });
+  return { version: RESOURCE_SNAPSHOT_VERSION, createdAt: Date.now(), entries };
+};
+
+export const isResourceSnapshot = (value: any): value is ResourceSnapshot =>
+  Boolean(value) && value.version === RESOURCE_SNAPSHOT_VERSION && typeof value.entries === "object";
+
+// Escapes "<" so the snapshot can be embedded in a script tag
+export const stringifyResourceSnapshot = (snapshot: ResourceSnapshot) =>
+  JSON.stringify(snapshot).replace(/</g, "\\u003c");
+
+// Null when the text is not a snapshot in the current format, e.g. saved by an older version
+export const parseResourceSnapshot = (text: string): ResourceSnapshot | null => {
+  try {
+    const snapshot = JSON.parse(text);
+    return isResourceSnapshot(snapshot) ? snapshot : null;
+  } catch (error) {
+    return null;
+  }
+};
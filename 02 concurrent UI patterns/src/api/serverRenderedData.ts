@@ -0,0 +1,38 @@
+import { ApiScope, getApiScope } from "./apiScope";
+import { ResourceSnapshot } from "./resourceSnapshot";
+
+export interface ServerRenderedData {
+  // False when the server could not render the page, so the client renders it from scratch
+  rendered: boolean;
+  resources: ResourceSnapshot;
+  images: ResourceSnapshot;
+}
+
+// The global the server assigns the data to, ahead of the client bundle
+export const SERVER_RENDERED_DATA_KEY = "__SERVER_RENDERED_DATA__";
+
+// Everything the server is still waiting for before it can render the page again
+export const getPendingResources = ({ resourceCache, imageCache }: ApiScope = getApiScope()) =>
+  [...resourceCache.getPending(), ...imageCache.getPending()];
+
+export const collectServerRenderedData = (
+  rendered: boolean, { resourceCache, imageCache }: ApiScope = getApiScope()
+): ServerRenderedData => ({
+  rendered,
+  resources: resourceCache.snapshot(),
+  images: imageCache.snapshot(),
+});
+
+// Escapes "<" so that no value can close the script tag the data is embedded in
+export const serializeServerRenderedData = (data: ServerRenderedData) =>
+  `window.${SERVER_RENDERED_DATA_KEY} = ${JSON.stringify(data).replace(/</g, "\\u003c")};`;
+
+export const readServerRenderedData = (): ServerRenderedData | null => window[SERVER_RENDERED_DATA_KEY] || null;
+
+// Seeds the caches with the data the server rendered, so hydrating the page does not fetch it again
+export const hydrateServerRenderedData = (
+  data: ServerRenderedData, { resourceCache, imageCache }: ApiScope = getApiScope()
+) => {
+  resourceCache.restore(data.resources);
+  imageCache.restore(data.images);
+};
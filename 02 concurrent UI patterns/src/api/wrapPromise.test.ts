@@ -0,0 +1,116 @@
+import { wrapPromise, isAbortError, RELEASE_GRACE_MS } from "./wrapPromise";
+import { flushPromises } from "../testUtils";
+
+const catchThrown = (callback: () => unknown) => {
+  try {
+    callback();
+  } catch (thrown) {
+    return thrown;
+  }
+  throw new Error("Expected the callback to throw");
+};
+
+describe("wrapPromise", () => {
+  it("throws the suspender while pending", () => {
+    const resource = wrapPromise(new Promise<number>(() => undefined));
+
+    const thrown = catchThrown(() => resource.read());
+
+    expect(thrown).toBeInstanceOf(Promise);
+    expect(resource.getStatus()).toBe("pending");
+  });
+
+  it("returns the value once resolved", async () => {
+    const resource = wrapPromise(Promise.resolve(42));
+
+    await flushPromises();
+
+    expect(resource.read()).toBe(42);
+    expect(resource.peek()).toBe(42);
+    expect(resource.getStatus()).toBe("success");
+  });
+
+  it("throws the error once rejected", async () => {
+    const error = new Error("Request failed");
+    const resource = wrapPromise(Promise.reject(error));
+
+    await flushPromises();
+
+    expect(catchThrown(() => resource.read())).toBe(error);
+    expect(resource.getStatus()).toBe("error");
+  });
+
+  it("resolves the suspender when the promise settles", async () => {
+    const resource = wrapPromise(Promise.resolve("done"));
+    const suspender = catchThrown(() => resource.read());
+
+    await suspender;
+
+    expect(resource.read()).toBe("done");
+  });
+
+  it("calls the fetcher again on retry after an error", async () => {
+    const fetcher = jest.fn()
+      .mockReturnValueOnce(Promise.reject(new Error("Request failed")))
+      .mockReturnValueOnce(Promise.resolve("second attempt"));
+    const resource = wrapPromise<string>(fetcher);
+    await flushPromises();
+
+    resource.retry();
+    await flushPromises();
+
+    expect(fetcher).toHaveBeenCalledTimes(2);
+    expect(resource.read()).toBe("second attempt");
+  });
+
+  it("aborts a pending request once the last reader releases it", async () => {
+    let signal: AbortSignal;
+    const resource = wrapPromise<string>(fetcherSignal => {
+      signal = fetcherSignal;
+      return new Promise(() => undefined);
+    });
+    const releaseFirst = resource.retain();
+    const releaseSecond = resource.retain();
+
+    releaseFirst();
+    expect(signal.aborted).toBe(false);
+    releaseSecond();
+    expect(signal.aborted).toBe(false);
+    jest.advanceTimersByTime(RELEASE_GRACE_MS);
+
+    expect(signal.aborted).toBe(true);
+    expect(isAbortError(catchThrown(() => resource.read()))).toBe(true);
+  });
+
+  it("keeps a released request going when it is retained again right away", () => {
+    let signal: AbortSignal;
+    const resource = wrapPromise<string>(fetcherSignal => {
+      signal = fetcherSignal;
+      return new Promise(() => undefined);
+    });
+
+    resource.retain()();
+    const release = resource.retain();
+    jest.advanceTimersByTime(RELEASE_GRACE_MS);
+
+    expect(signal.aborted).toBe(false);
+    release();
+    jest.advanceTimersByTime(RELEASE_GRACE_MS);
+    expect(signal.aborted).toBe(true);
+  });
+
+  it("ignores the result of a superseded attempt", async () => {
+    let resolveFirst: (value: string) => void;
+    const fetcher = jest.fn()
+      .mockReturnValueOnce(new Promise<string>(resolve => { resolveFirst = resolve; }))
+      .mockReturnValueOnce(Promise.resolve("second attempt"));
+    const resource = wrapPromise<string>(fetcher);
+
+    resource.abort();
+    resource.retry();
+    resolveFirst("first attempt");
+    await flushPromises();
+
+    expect(resource.read()).toBe("second attempt");
+  });
+});
@@ -1,25 +1,169 @@
-export const wrapPromise = <T extends {}>(promise: Promise<T>) => {
-  let status = "pending";
-  let result;
-  let suspender = promise.then(
-    response => {
-      status = "success";
-      result = response;
-    },
-    error => {
-      status = "error";
-      result = error;
+import { traceRequest, RequestTrace } from "./fetchTimeline";
+
+export type ResourceState<T> =
+  | { status: "pending" }
+  | { status: "success"; value: T }
+  | { status: "error"; error: any };
+
+export type ResourceStatus = ResourceState<any>["status"];
+
+// What JSON.stringify writes for a resource. Only a loaded one carries its data, the others just
+// say that the data has to be fetched again
+export type SerializedResource<T> =
+  | { $resource: "success"; value: T }
+  | { $resource: "pending" }
+  | { $resource: "error"; message: string };
+
+export interface Resource<T> {
+  read(): T;
+  peek(): T | undefined;
+  getStatus(): ResourceStatus;
+  getState(): ResourceState<T>;
+  retry(): void;
+  retain(): () => void;
+  abort(): void;
+  toPromise(): Promise<T>;
+  toJSON(): SerializedResource<T>;
+  readonly signal: AbortSignal;
+}
+
+export type Fetcher<T> = (signal: AbortSignal) => Promise<T>;
+
+export const createAbortError = () => new DOMException("The resource was aborted", "AbortError");
+
+export const isAbortError = (error: any) => Boolean(error) && error.name === "AbortError";
+
+const untracedRequest: RequestTrace = {
+  settle: () => undefined,
+  markRead: () => undefined,
+};
+
+// How long a released request keeps going, so that a reader letting go of it and another one taking
+// it up right after, e.g. an effect running again for a new page wrapping the same requests, do not cancel it
+export const RELEASE_GRACE_MS = 1000;
+
+// Backs both kinds of resources: one that starts fetching right away, and one that already holds its data
+const createResource = <T extends {}>(fetcher: Fetcher<T>, label: string, resolved?: { value: T }): Resource<T> => {
+  let controller: AbortController;
+  let trace: RequestTrace;
+  let state: ResourceState<T>;
+  let promise: Promise<T>;
+  let suspender: Promise<void>;
+  let retainCount = 0;
+  let releaseTimeoutId: ReturnType<typeof setTimeout>;
+
+  const start = () => {
+    const currentController = new AbortController();
+    const currentTrace = traceRequest(label);
+    controller = currentController;
+    trace = currentTrace;
+    state = { status: "pending" };
+    promise = new Promise<T>(resolve => resolve(fetcher(currentController.signal)));
+    suspender = promise.then(
+      value => {
+        currentTrace.settle("success");
+        // Results of a superseded attempt (after retry or abort) are ignored
+        if (controller === currentController && state.status === "pending") {
+          state = { status: "success", value };
+        }
+      },
+      error => {
+        currentTrace.settle(isAbortError(error) ? "aborted" : "error");
+        if (controller === currentController && state.status === "pending") {
+          state = { status: "error", error };
+        }
+      }
+    );
+  };
+
+  const abort = () => {
+    if (state.status === "pending") {
+      state = { status: "error", error: createAbortError() };
+      trace.settle("aborted");
+      controller.abort();
     }
-  );
+  };
+
+  if (resolved) {
+    controller = new AbortController();
+    trace = untracedRequest;
+    state = { status: "success", value: resolved.value };
+    promise = Promise.resolve(resolved.value);
+    suspender = Promise.resolve();
+  } else {
+    start();
+  }
+
   return {
     read(): T {
-      if (status === "pending") {
-        throw suspender;
-      } else if (status === "error") {
-        throw result;
-      } else if (status === "success") {
-        return result;
+      trace.markRead();
+      switch (state.status) {
+        case "pending":
+          throw suspender;
+        case "error":
+          throw state.error;
+        case "success":
+          return state.value;
       }
-    }
+    },
+    peek() {
+      return state.status === "success" ? state.value : undefined;
+    },
+    getStatus() {
+      return state.status;
+    },
+    getState() {
+      return state;
+    },
+    retry() {
+      if (state.status === "error") {
+        start();
+      }
+    },
+    // Readers that hold on to the resource retain it; once the last one lets go of a pending
+    // resource, and nobody retains it again for a moment, the underlying request is cancelled
+    retain() {
+      let released = false;
+      retainCount++;
+      clearTimeout(releaseTimeoutId);
+      return () => {
+        if (released) {
+          return;
+        }
+        released = true;
+        retainCount--;
+        if (retainCount === 0) {
+          releaseTimeoutId = setTimeout(abort, RELEASE_GRACE_MS);
+        }
+      };
+    },
+    abort,
+    // Lets other fetchers build on this resource without reading it during render
+    toPromise() {
+      return state.status === "error" ? Promise.reject(state.error) : promise;
+    },
+    toJSON(): SerializedResource<T> {
+      switch (state.status) {
+        case "pending":
+          return { $resource: "pending" };
+        case "error":
+          return { $resource: "error", message: String(state.error && state.error.message) };
+        case "success":
+          return { $resource: "success", value: state.value };
+      }
+    },
+    get signal() {
+      return controller.signal;
+    },
   };
-}
\ No newline at end of file
+};
+
+// Every attempt is recorded in the fetch timeline under the given label
+export const wrapPromise = <T extends {}>(source: Promise<T> | Fetcher<T>, label: string = "resource"): Resource<T> =>
+  // A bare promise cannot be restarted, so retrying it only works when a fetcher was given
+  createResource(typeof source === "function" ? source : () => source, label);
+
+// Wraps data that is already known, e.g. restored from a snapshot, so reading it never suspends.
+// Nothing is requested, so nothing shows up in the fetch timeline either
+export const createResolvedResource = <T extends {}>(value: T, label: string = "resource"): Resource<T> =>
+  createResource(() => Promise.resolve(value), label, { value });
@@ -1,24 +1,39 @@
 import * as React from "react";
-import { HashRouter, Switch, Route } from "react-router-dom";
-import { MainPage } from "./pages/mainPage";
-import { DetailsPage } from "./pages/detailsPage";
-import { ReviewerDetailsApp } from "./pages/reviewerDetailsApp";
-import { Add3Page } from "./pages/add3Page";
-import { SuspenseListApp } from "./pages/suspenseListApp";
+import { HashRouter, BrowserRouter, StaticRouter } from "react-router-dom";
+import { createPreloader, PreloadRoutes, Preloader } from "./router";
+import { ROUTES } from "./routes";
+import { LatencyPanel, FetchTimelinePanel, NavigationProgressBar, ClientOnly } from "./components";
+import { PendingTransitionsProvider } from "./hooks";
 
-export const App = () => {
+interface AppProps {
+  // Set by the server, which renders the page at this url
+  location?: string;
+  // Pages served by the server use path based urls instead of the hash
+  browserHistory?: boolean;
+  // The server keeps one per request, so rendering the page again picks up the same resources
+  preloader?: Preloader;
+}
+
+const clientPreloader = createPreloader(ROUTES);
+
+export const App: React.FC<AppProps> = ({ location, browserHistory = false, preloader = clientPreloader }) => {
+  const routes = <PreloadRoutes routes={ROUTES} preloader={preloader} />;
+
+  const renderRouter = () => {
+    if (location !== undefined) {
+      return <StaticRouter location={location} context={{}}>{routes}</StaticRouter>;
+    }
+    return browserHistory ? <BrowserRouter>{routes}</BrowserRouter> : <HashRouter>{routes}</HashRouter>;
+  };
 
   return (
-    <>
-      <HashRouter>
-        <Switch>
-          <Route exact={true} path="/" component={MainPage} />
-          <Route path="/details" component={DetailsPage} />
-          <Route path="/reviewerDetails" component={ReviewerDetailsApp} />
-          <Route path="/add" component={Add3Page} />
-          <Route path="/suspenseList" component={SuspenseListApp} />
-        </Switch>
-      </HashRouter>
-    </>
+    <PendingTransitionsProvider>
+      <NavigationProgressBar />
+      <ClientOnly>
+        <LatencyPanel />
+        <FetchTimelinePanel />
+      </ClientOnly>
+      {renderRouter()}
+    </PendingTransitionsProvider>
   );
 };
@@ -0,0 +1,32 @@
+import * as React from "react";
+import { SuspenseImage } from "./suspenseImage";
+
+interface AvatarProps {
+  name: string;
+  src?: string;
+  size?: number;
+}
+
+const getInitials = (name: string) => name.split(" ").map(word => word[0]).join("").slice(0, 2).toUpperCase();
+
+export const Avatar: React.FC<AvatarProps> = ({ name, src, size = 48 }) => {
+  const style: React.CSSProperties = {
+    width: size,
+    height: size,
+    borderRadius: "50%",
+    verticalAlign: "middle",
+    marginRight: 8,
+  };
+  const initials = (
+    <span
+      title={name}
+      style={{ ...style, display: "inline-flex", alignItems: "center", justifyContent: "center", background: "#ccc" }}
+    >
+      {getInitials(name)}
+    </span>
+  );
+  if (!src) {
+    return initials;
+  }
+  return <SuspenseImage src={src} alt={name} title={name} style={style} fallback={initials} />;
+};
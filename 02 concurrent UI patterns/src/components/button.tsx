@@ -1,27 +1,15 @@
 import * as React from "react";
+import { TransitionButton } from "./transitionButton";
 
 interface ButtonProps {
   children: React.ReactNode;
   onClick: () => void;
+  label?: string;
+  prefetchTo?: string;
 }
 
-export const Button: React.FC<ButtonProps> = ({onClick, children}) => {
-  //@ts-ignore
-  const [startTransition, pending] = React.useTransition({ timeoutMs: 10000 });
-
-  const handleClick = () => {
-    startTransition(() => { onClick(); });
-  }
-
-  return (
-    <>
-      <button
-        onClick={handleClick}
-        disabled={pending}
-      >
-        {children}
-      </button>
-      { pending ? 'Loading...' : null }
-    </>
-  );
-}
\ No newline at end of file
+export const Button: React.FC<ButtonProps> = ({onClick, children, label, prefetchTo}) => (
+  <TransitionButton onClick={onClick} timeoutMs={10000} label={label} prefetchTo={prefetchTo}>
+    {children}
+  </TransitionButton>
+);
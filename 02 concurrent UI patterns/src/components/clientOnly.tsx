@@ -0,0 +1,13 @@
+import * as React from "react";
+
+// Renders its children once mounted in the browser. The server leaves them out of the page, so content
+// that can only differ between the two, like request timings, does not break hydration
+export const ClientOnly: React.FC = ({ children }) => {
+  const [mounted, setMounted] = React.useState(false);
+
+  React.useEffect(() => {
+    setMounted(true);
+  }, []);
+
+  return mounted ? <>{children}</> : null;
+};
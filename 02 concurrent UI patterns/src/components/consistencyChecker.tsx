@@ -0,0 +1,87 @@
+import * as React from "react";
+import { useIsomorphicLayoutEffect } from "../hooks";
+
+interface ConsistencyCheckerProps {
+  // Names the checked screen in the log, e.g. "reviewer details"
+  name: string;
+  // What the tagged ids refer to, e.g. "reviewer"
+  entity: string;
+}
+
+interface Inconsistency {
+  id: number;
+  time: string;
+  description: string;
+}
+
+type Tags = Record<string, number>;
+
+type SetTag = (part: string, id: number | null) => void;
+
+const MAX_LOG_ENTRIES = 20;
+
+const SetTagContext = React.createContext<SetTag>(() => undefined);
+
+let nextInconsistencyId = 0;
+
+const findMismatch = (tags: Tags) => new Set(Object.keys(tags).map(part => tags[part])).size > 1;
+
+const describeTags = (tags: Tags, entity: string) =>
+  Object.keys(tags).map(part => `${part} for ${entity} ${tags[part]}`).join(" next to ");
+
+// Tags a rendered piece of data with the id it was fetched for; null means nothing is shown yet
+export const useConsistencyTag = (part: string, id: number | null) => {
+  const setTag = React.useContext(SetTagContext);
+  useIsomorphicLayoutEffect(() => {
+    setTag(part, id);
+    return () => setTag(part, null);
+  }, [part, id, setTag]);
+};
+
+// Flags every moment in which the tagged parts of its children show data fetched for different ids
+export const ConsistencyChecker: React.FC<ConsistencyCheckerProps> = ({ name, entity, children }) => {
+  const [tags, setTags] = React.useState<Tags>({});
+  const [detectedCount, setDetectedCount] = React.useState(0);
+  const [log, setLog] = React.useState<Inconsistency[]>([]);
+  const inconsistent = findMismatch(tags);
+
+  const setTag = React.useCallback<SetTag>((part, id) => {
+    setTags(current => {
+      const nextTags = { ...current };
+      delete nextTags[part];
+      if (id !== null) {
+        nextTags[part] = id;
+      }
+      return nextTags;
+    });
+  }, []);
+
+  const description = describeTags(tags, entity);
+
+  React.useEffect(() => {
+    if (!inconsistent) {
+      return;
+    }
+    console.warn(`Inconsistent ${name}: showing ${description}`);
+    setDetectedCount(count => count + 1);
+    setLog(current => [
+      { id: nextInconsistencyId++, time: new Date().toLocaleTimeString(), description },
+      ...current,
+    ].slice(0, MAX_LOG_ENTRIES));
+  }, [inconsistent, description]);
+
+  return (
+    <div style={{ outline: inconsistent ? "3px solid #d73a49" : "none", padding: 4 }}>
+      {inconsistent ? <p role="alert" style={{ color: "#d73a49" }}>{`Inconsistent: showing ${description}`}</p> : null}
+      <SetTagContext.Provider value={setTag}>
+        {children}
+      </SetTagContext.Provider>
+      <details>
+        <summary>{`Inconsistencies detected: ${detectedCount}`}</summary>
+        <ul>
+          {log.map(entry => <li key={entry.id}>{`${entry.time}: ${entry.description}`}</li>)}
+        </ul>
+      </details>
+    </div>
+  );
+};
@@ -0,0 +1,155 @@
+import * as React from "react";
+import {
+  TimelineEntry, RequestStatus, getTimeline, getTimelinePage, clearTimeline, subscribeToTimeline,
+} from "../api";
+
+interface WaterfallRowProps {
+  entry: TimelineEntry;
+  origin: number;
+  totalMs: number;
+  currentTime: number;
+}
+
+const LABEL_WIDTH = 260;
+const TICK_INTERVAL_MS = 250;
+
+const STATUS_COLORS: Record<RequestStatus, string> = {
+  pending: "#c8e1ff",
+  success: "#79b8ff",
+  error: "#f97583",
+  aborted: "#d1d5da",
+};
+
+const BOUNDARY_COLOR = "#ffdf5d";
+
+const useTimeline = () => {
+  const [entries, setEntries] = React.useState<TimelineEntry[]>(getTimeline());
+  React.useEffect(() => subscribeToTimeline(setEntries), []);
+  return entries;
+};
+
+// Pending bars keep growing, so the chart is redrawn every now and then while anything is still pending
+const useCurrentTime = (ticking: boolean) => {
+  const [currentTime, setCurrentTime] = React.useState(() => performance.now());
+
+  React.useEffect(() => {
+    setCurrentTime(performance.now());
+    if (!ticking) {
+      return;
+    }
+    const intervalId = window.setInterval(() => setCurrentTime(performance.now()), TICK_INTERVAL_MS);
+    return () => window.clearInterval(intervalId);
+  }, [ticking]);
+
+  return currentTime;
+};
+
+// The typings in use do not know about onToggle yet, so the native event is listened to instead
+const useDetailsOpen = (detailsRef: React.RefObject<HTMLDetailsElement>) => {
+  const [open, setOpen] = React.useState(false);
+
+  React.useEffect(() => {
+    const details = detailsRef.current;
+    const handleToggle = () => setOpen(details.open);
+    details.addEventListener("toggle", handleToggle);
+    return () => details.removeEventListener("toggle", handleToggle);
+  }, []);
+
+  return open;
+};
+
+const getStart = (entry: TimelineEntry) => entry.kind === "request" ? entry.startedAt : entry.suspendedAt;
+
+const getEnd = (entry: TimelineEntry) => entry.kind === "request" ? entry.settledAt : entry.revealedAt;
+
+export const FetchTimelinePanel = () => {
+  const entries = useTimeline();
+  const detailsRef = React.useRef<HTMLDetailsElement>(null);
+  const open = useDetailsOpen(detailsRef);
+  const [selectedPage, setSelectedPage] = React.useState<string | null>(null);
+
+  const pages = Array.from(new Set(entries.map(entry => entry.page)));
+  const page = selectedPage !== null && pages.includes(selectedPage) ? selectedPage : getTimelinePage();
+  const pageEntries = entries.filter(entry => entry.page === page);
+  const hasPendingEntries = pageEntries.some(entry => getEnd(entry) === null);
+  const currentTime = useCurrentTime(open && hasPendingEntries);
+
+  const origin = Math.min(...pageEntries.map(getStart));
+  const end = Math.max(...pageEntries.map(entry => getEnd(entry) === null ? currentTime : getEnd(entry)));
+  const totalMs = Math.max(1, end - origin);
+
+  return (
+    <details ref={detailsRef} style={{ marginBottom: 16 }}>
+      <summary>Fetch timeline</summary>
+      <label>
+        Page{" "}
+        <select value={page} onChange={e => setSelectedPage(e.target.value)}>
+          {(pages.includes(page) ? pages : [...pages, page]).map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      </label>{" "}
+      <button onClick={clearTimeline}>Clear timeline</button>
+      <p style={{ fontSize: 12 }}>
+        Bars are requests (light blue while pending, red when failed, grey when aborted); the black mark is the
+        first read, so a mark before the end of its bar means a component suspended on it. Yellow bars show how
+        long a Suspense fallback was on screen.
+      </p>
+      {pageEntries.length === 0 ? (
+        <p>{`Nothing recorded for ${page} yet`}</p>
+      ) : (
+        <>
+          <p>{`${Math.round(totalMs)} ms from the first request to the last reveal`}</p>
+          {pageEntries.map(entry => (
+            <WaterfallRow key={entry.id} entry={entry} origin={origin} totalMs={totalMs} currentTime={currentTime} />
+          ))}
+        </>
+      )}
+    </details>
+  );
+};
+
+const WaterfallRow: React.FC<WaterfallRowProps> = ({ entry, origin, totalMs, currentTime }) => {
+  const toPercentage = (ms: number) => `${(ms / totalMs) * 100}%`;
+  const start = getStart(entry);
+  const end = getEnd(entry) === null ? currentTime : getEnd(entry);
+  const color = entry.kind === "request" ? STATUS_COLORS[entry.status] : BOUNDARY_COLOR;
+  const label = entry.kind === "request" ? entry.label : `<Suspense> ${entry.label}`;
+
+  return (
+    <div style={{ display: "flex", alignItems: "center", height: 18, fontSize: 12 }}>
+      <span
+        title={label}
+        style={{ width: LABEL_WIDTH, flexShrink: 0, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }}
+      >
+        {label}
+      </span>
+      <div style={{ position: "relative", flexGrow: 1, height: "100%" }}>
+        <div
+          title={`${Math.round(end - start)} ms`}
+          style={{
+            position: "absolute",
+            left: toPercentage(start - origin),
+            width: toPercentage(Math.max(end - start, 1)),
+            top: 3,
+            bottom: 3,
+            background: color,
+          }}
+        />
+        {entry.kind === "request" && entry.firstReadAt !== null ? (
+          <div
+            title={`First read after ${Math.round(entry.firstReadAt - start)} ms`}
+            style={{
+              position: "absolute",
+              left: toPercentage(entry.firstReadAt - origin),
+              width: 2,
+              top: 0,
+              bottom: 0,
+              background: "#24292e",
+            }}
+          />
+        ) : null}
+      </div>
+    </div>
+  );
+};
@@ -1 +1,12 @@
 export { Button } from "./button";
+export { TransitionButton } from "./transitionButton";
+export { TransitionLink } from "./transitionLink";
+export { PendingIndicator } from "./pendingIndicator";
+export { NavigationProgressBar } from "./navigationProgressBar";
+export { LatencyPanel } from "./latencyPanel";
+export { FetchTimelinePanel } from "./fetchTimelinePanel";
+export { TracedSuspense, TracedFallback } from "./tracedSuspense";
+export { SuspenseImage } from "./suspenseImage";
+export { Avatar } from "./avatar";
+export { ConsistencyChecker, useConsistencyTag } from "./consistencyChecker";
+export { ClientOnly } from "./clientOnly";
@@ -0,0 +1,101 @@
+import * as React from "react";
+import {
+  MockEndpoint, EndpointLatency, LatencyProfile, LATENCY_PRESETS, resourceCache, reviewerDirectoryCache, offlineStore,
+  getLatencyProfile, setLatencyProfile, updateEndpointLatency, subscribeToLatencyProfile,
+} from "../api";
+
+interface EndpointRowProps {
+  endpoint: MockEndpoint;
+  latency: EndpointLatency;
+}
+
+const useLatencyProfile = () => {
+  const [profile, setProfile] = React.useState<LatencyProfile>(getLatencyProfile());
+  React.useEffect(() => subscribeToLatencyProfile(setProfile), []);
+  return profile;
+};
+
+export const LatencyPanel = () => {
+  const profile = useLatencyProfile();
+  const presetName = Object.keys(LATENCY_PRESETS).find(name => LATENCY_PRESETS[name] === profile) || "custom";
+
+  const clearCachedData = () => {
+    resourceCache.invalidateAll();
+    reviewerDirectoryCache.invalidateAll();
+  };
+
+  const handlePresetChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setLatencyProfile(LATENCY_PRESETS[e.target.value]);
+  };
+
+  return (
+    <details style={{ marginBottom: 16 }}>
+      <summary>Mock backend latency</summary>
+      <label>
+        Preset{" "}
+        <select value={presetName} onChange={handlePresetChange}>
+          {Object.keys(LATENCY_PRESETS).map(name => (
+            <option key={name} value={name}>{name}</option>
+          ))}
+          {presetName === "custom" ? <option value="custom" disabled>custom</option> : null}
+        </select>
+      </label>{" "}
+      <button onClick={clearCachedData}>Clear cached data</button>{" "}
+      <button onClick={() => offlineStore.clear()}>Clear offline data</button>
+      <table>
+        <thead>
+          <tr>
+            <th>Endpoint</th>
+            <th>Delay (ms)</th>
+            <th>Jitter (ms)</th>
+            <th>Failure rate</th>
+            <th>Hang</th>
+          </tr>
+        </thead>
+        <tbody>
+          {(Object.keys(profile) as MockEndpoint[]).map(endpoint => (
+            <EndpointRow key={endpoint} endpoint={endpoint} latency={profile[endpoint]} />
+          ))}
+        </tbody>
+      </table>
+    </details>
+  );
+};
+
+const EndpointRow: React.FC<EndpointRowProps> = ({ endpoint, latency }) => {
+  const update = (changes: Partial<EndpointLatency>) => updateEndpointLatency(endpoint, changes);
+
+  return (
+    <tr>
+      <td>{endpoint}</td>
+      <td>
+        <input
+          type="number" min={0} step={100}
+          value={latency.delayMs}
+          onChange={e => update({ delayMs: Number(e.target.value) })}
+        />
+      </td>
+      <td>
+        <input
+          type="number" min={0} step={100}
+          value={latency.jitterMs}
+          onChange={e => update({ jitterMs: Number(e.target.value) })}
+        />
+      </td>
+      <td>
+        <input
+          type="number" min={0} max={1} step={0.1}
+          value={latency.failureRate}
+          onChange={e => update({ failureRate: Number(e.target.value) })}
+        />
+      </td>
+      <td>
+        <input
+          type="checkbox"
+          checked={latency.hang}
+          onChange={e => update({ hang: e.target.checked })}
+        />
+      </td>
+    </tr>
+  );
+};
@@ -0,0 +1,77 @@
+import * as React from "react";
+import { usePendingTransitions, useDelayedFlag, updateUrgently, useIsomorphicLayoutEffect } from "../hooks";
+
+interface NavigationProgressBarProps {
+  // How long a transition has to be pending before the bar appears
+  delayMs?: number;
+}
+
+const TRICKLE_INTERVAL_MS = 200;
+const FADE_OUT_MS = 400;
+
+const barStyle: React.CSSProperties = {
+  position: "fixed",
+  top: 0,
+  left: 0,
+  height: 3,
+  background: "#0366d6",
+  zIndex: 1000,
+  transition: `width ${TRICKLE_INTERVAL_MS}ms ease-out, opacity ${FADE_OUT_MS}ms ease-in`,
+};
+
+const visuallyHidden: React.CSSProperties = {
+  position: "absolute",
+  width: 1,
+  height: 1,
+  overflow: "hidden",
+  clip: "rect(0 0 0 0)",
+  whiteSpace: "nowrap",
+};
+
+// We cannot know how far along a transition is, so the bar creeps towards 90% while anything is
+// pending, then fills up and fades out once everything has settled
+const useTrickleProgress = (active: boolean) => {
+  const [progress, setProgress] = React.useState(0);
+
+  useIsomorphicLayoutEffect(() => {
+    if (active) {
+      setProgress(current => (current === 0 || current === 100 ? 10 : current));
+      const intervalId = window.setInterval(() => {
+        updateUrgently(() => setProgress(current => current + (90 - current) * 0.1));
+      }, TRICKLE_INTERVAL_MS);
+      return () => window.clearInterval(intervalId);
+    }
+    setProgress(current => (current === 0 ? 0 : 100));
+    const timeoutId = window.setTimeout(() => setProgress(0), FADE_OUT_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [active]);
+
+  return progress;
+};
+
+export const NavigationProgressBar: React.FC<NavigationProgressBarProps> = ({ delayMs = 200 }) => {
+  const pendingTransitions = usePendingTransitions();
+  const visible = useDelayedFlag(pendingTransitions.length > 0, delayMs);
+  const progress = useTrickleProgress(visible);
+  const labels = Array.from(new Set(pendingTransitions.map(transition => transition.label)));
+
+  const message = visible
+    ? `Loading ${labels.join(", ")}...`
+    : progress === 100 ? "Loading complete" : "";
+
+  return (
+    <>
+      {progress > 0 ? (
+        <div
+          role="progressbar"
+          aria-label="Page loading"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(progress)}
+          style={{ ...barStyle, width: `${progress}%`, opacity: progress === 100 ? 0 : 1 }}
+        />
+      ) : null}
+      <div role="status" aria-live="polite" style={visuallyHidden}>{message}</div>
+    </>
+  );
+};
@@ -0,0 +1,14 @@
+import * as React from "react";
+import { useDelayedFlag } from "../hooks";
+
+interface PendingIndicatorProps {
+  pending: boolean;
+  // How long the pending state has to last before anything is shown
+  delayMs?: number;
+  children?: React.ReactNode;
+}
+
+export const PendingIndicator: React.FC<PendingIndicatorProps> = ({ pending, delayMs = 0, children = "Loading..." }) => {
+  const visible = useDelayedFlag(pending, delayMs);
+  return visible ? <span role="status">{children}</span> : null;
+};
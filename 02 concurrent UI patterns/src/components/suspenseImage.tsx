@@ -0,0 +1,15 @@
+import * as React from "react";
+import { getImageResource } from "../api";
+
+interface SuspenseImageProps extends React.ImgHTMLAttributes<HTMLImageElement> {
+  src: string;
+  // Rendered instead of the image when it fails to load or does not load within timeoutMs
+  fallback: React.ReactNode;
+  timeoutMs?: number;
+}
+
+// Suspends until the image is decoded, so the surrounding Suspense boundary reveals text and image together
+export const SuspenseImage: React.FC<SuspenseImageProps> = ({ src, fallback, timeoutMs = 2000, ...props }) => {
+  const loaded = getImageResource(src, timeoutMs).read();
+  return loaded ? <img src={src} {...props} /> : <>{fallback}</>;
+};
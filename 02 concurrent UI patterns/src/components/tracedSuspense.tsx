@@ -0,0 +1,26 @@
+import * as React from "react";
+import { traceBoundary } from "../api";
+import { useIsomorphicLayoutEffect } from "../hooks";
+
+interface TracedFallbackProps {
+  name: string;
+  children?: React.ReactNode;
+}
+
+interface TracedSuspenseProps {
+  name: string;
+  fallback: React.ReactNode;
+}
+
+// Records in the fetch timeline how long this placeholder was on screen
+export const TracedFallback: React.FC<TracedFallbackProps> = ({ name, children }) => {
+  useIsomorphicLayoutEffect(() => traceBoundary(name), [name]);
+  return <>{children}</>;
+};
+
+// A Suspense boundary that shows up in the fetch timeline whenever it suspends
+export const TracedSuspense: React.FC<TracedSuspenseProps> = ({ name, fallback, children }) => (
+  <React.Suspense fallback={<TracedFallback name={name}>{fallback}</TracedFallback>}>
+    {children}
+  </React.Suspense>
+);
@@ -0,0 +1,42 @@
+import * as React from "react";
+import { useTrackedTransition } from "../hooks";
+import { usePrefetchOnIntent } from "../router";
+import { PendingIndicator } from "./pendingIndicator";
+
+export interface TransitionButtonProps {
+  children: React.ReactNode;
+  onClick: () => void;
+  timeoutMs?: number;
+  // Announced by the app-wide progress bar while the transition is pending
+  label?: string;
+  pendingContent?: React.ReactNode;
+  spinnerDelayMs?: number;
+  // The page the button navigates to, prefetched when the user hovers or focuses it
+  prefetchTo?: string;
+}
+
+export const TransitionButton: React.FC<TransitionButtonProps> = ({
+  onClick, children, timeoutMs, label = "content", pendingContent, spinnerDelayMs, prefetchTo,
+}) => {
+  const [startTransition, pending] = useTrackedTransition(label, timeoutMs);
+  const intent = usePrefetchOnIntent(prefetchTo);
+
+  const handleClick = () => {
+    startTransition(() => { onClick(); });
+  }
+
+  return (
+    <>
+      <button
+        onClick={handleClick}
+        {...intent}
+        disabled={pending}
+      >
+        {children}
+      </button>
+      <PendingIndicator pending={pending} delayMs={spinnerDelayMs}>
+        {pendingContent}
+      </PendingIndicator>
+    </>
+  );
+}
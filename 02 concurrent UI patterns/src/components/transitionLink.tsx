@@ -0,0 +1,57 @@
+import * as React from "react";
+import { Link, LinkProps, withRouter, RouteComponentProps } from "react-router-dom";
+import { useTrackedTransition } from "../hooks";
+import { PreloaderContext, usePrefetchOnIntent } from "../router";
+import { PendingIndicator } from "./pendingIndicator";
+
+interface TransitionLinkProps extends LinkProps, RouteComponentProps<any> {
+  to: string;
+  timeoutMs?: number;
+  label?: string;
+  pendingContent?: React.ReactNode;
+  spinnerDelayMs?: number;
+}
+
+const isModifiedClick = (e: React.MouseEvent) => e.button !== 0 || e.metaKey || e.altKey || e.ctrlKey || e.shiftKey;
+
+// Navigates inside a transition, so the current page stays on screen until the next one is ready
+const TransitionLinkInner: React.FC<TransitionLinkProps> = ({
+  to, timeoutMs, label = "page", pendingContent, spinnerDelayMs, onClick, onMouseEnter, onMouseLeave, onFocus,
+  history, location, match, staticContext, ...props
+}) => {
+  const [startTransition, pending] = useTrackedTransition(label, timeoutMs);
+  const preloader = React.useContext(PreloaderContext);
+  const intent = usePrefetchOnIntent(to);
+
+  const handleClick = (e: React.MouseEvent<HTMLAnchorElement>) => {
+    if (onClick) {
+      onClick(e);
+    }
+    if (e.defaultPrevented || isModifiedClick(e)) {
+      return;
+    }
+    e.preventDefault();
+    if (preloader) {
+      preloader.preload(to);
+    }
+    startTransition(() => { history.push(to); });
+  };
+
+  return (
+    <>
+      <Link
+        {...props}
+        to={to}
+        onClick={handleClick}
+        onMouseEnter={e => { intent.onMouseEnter(); if (onMouseEnter) onMouseEnter(e); }}
+        onMouseLeave={e => { intent.onMouseLeave(); if (onMouseLeave) onMouseLeave(e); }}
+        onFocus={e => { intent.onFocus(); if (onFocus) onFocus(e); }}
+      />
+      <PendingIndicator pending={pending} delayMs={spinnerDelayMs}>
+        {pendingContent}
+      </PendingIndicator>
+    </>
+  );
+};
+
+export const TransitionLink = withRouter(TransitionLinkInner);
@@ -0,0 +1,37 @@
+import * as React from "react";
+import { TransitionStartFunction } from "react";
+import { flushSync } from "react-dom";
+
+// Part of every React DOM build, but missing from the installed typings
+declare module "react-dom" {
+  function flushSync(callback: () => void): void;
+}
+
+export const DEFAULT_TIMEOUT_MS = 3000;
+
+// Typed wrappers around the experimental hooks, taking the timeout as a plain number
+export const useTransition = (timeoutMs: number = DEFAULT_TIMEOUT_MS): [TransitionStartFunction, boolean] =>
+  React.useTransition({ timeoutMs });
+
+export const useDeferredValue = <T>(value: T, timeoutMs: number = DEFAULT_TIMEOUT_MS): T =>
+  React.useDeferredValue(value, { timeoutMs });
+
+// Updates from timers run at normal priority, which React does not commit while a transition is suspended.
+// Pending indicators flush theirs synchronously, or they would only show up once there is nothing left to wait for
+export const updateUrgently = (update: () => void) => flushSync(update);
+
+// Only turns true once the flag has been on for delayMs, so quick transitions never flash a spinner
+export const useDelayedFlag = (flag: boolean, delayMs: number) => {
+  const [delayedFlag, setDelayedFlag] = React.useState(false);
+
+  React.useEffect(() => {
+    if (!flag || delayMs <= 0) {
+      setDelayedFlag(false);
+      return;
+    }
+    const timeoutId = window.setTimeout(() => updateUrgently(() => setDelayedFlag(true)), delayMs);
+    return () => window.clearTimeout(timeoutId);
+  }, [flag, delayMs]);
+
+  return flag && (delayMs <= 0 || delayedFlag);
+};
@@ -0,0 +1,5 @@
+export { useTransition, useDeferredValue, useDelayedFlag, updateUrgently, DEFAULT_TIMEOUT_MS } from "./concurrent";
+export {
+  PendingTransitionsProvider, usePendingTransitions, useReportPending, useTrackedTransition, PendingTransition,
+} from "./pendingTransitions";
+export { useIsomorphicLayoutEffect } from "./isomorphicLayoutEffect";
@@ -0,0 +1,4 @@
+import * as React from "react";
+
+// useLayoutEffect warns when rendered on the server, where neither kind of effect runs
+export const useIsomorphicLayoutEffect = typeof window === "undefined" ? React.useEffect : React.useLayoutEffect;
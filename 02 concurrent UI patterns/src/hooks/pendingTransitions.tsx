@@ -0,0 +1,58 @@
+import * as React from "react";
+import { TransitionStartFunction } from "react";
+import { useTransition } from "./concurrent";
+import { useIsomorphicLayoutEffect } from "./isomorphicLayoutEffect";
+
+export interface PendingTransition {
+  id: number;
+  label: string;
+}
+
+type RegisterPending = (label: string) => () => void;
+
+// The register function never changes, so components reporting a pending state are not
+// re-rendered whenever the list of pending transitions changes
+const RegisterPendingContext = React.createContext<RegisterPending | null>(null);
+const PendingTransitionsContext = React.createContext<PendingTransition[]>([]);
+
+let nextTransitionId = 0;
+
+export const PendingTransitionsProvider: React.FC = ({ children }) => {
+  const [pendingTransitions, setPendingTransitions] = React.useState<PendingTransition[]>([]);
+
+  const register = React.useCallback<RegisterPending>(label => {
+    const transition = { id: nextTransitionId++, label };
+    setPendingTransitions(current => [...current, transition]);
+    return () => setPendingTransitions(current => current.filter(t => t !== transition));
+  }, []);
+
+  return (
+    <RegisterPendingContext.Provider value={register}>
+      <PendingTransitionsContext.Provider value={pendingTransitions}>
+        {children}
+      </PendingTransitionsContext.Provider>
+    </RegisterPendingContext.Provider>
+  );
+};
+
+export const usePendingTransitions = () => React.useContext(PendingTransitionsContext);
+
+// Registers with the app-wide indicator for as long as pending is true.
+// Outside of a PendingTransitionsProvider this does nothing.
+// Registering in a layout effect updates the indicator right away; a passive effect's update would wait
+// behind the suspended transition it is meant to announce
+export const useReportPending = (pending: boolean, label: string) => {
+  const register = React.useContext(RegisterPendingContext);
+
+  useIsomorphicLayoutEffect(() => {
+    if (pending && register) {
+      return register(label);
+    }
+  }, [pending, label, register]);
+};
+
+export const useTrackedTransition = (label: string, timeoutMs?: number): [TransitionStartFunction, boolean] => {
+  const [startTransition, pending] = useTransition(timeoutMs);
+  useReportPending(pending, label);
+  return [startTransition, pending];
+};
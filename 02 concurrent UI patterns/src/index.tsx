@@ -1,11 +1,22 @@
 import {} from "react-dom/experimental";
+import {} from "react/experimental";
 import * as React from "react";
 import * as ReactDOM from "react-dom";
 
 import { App } from "./app";
+import { readServerRenderedData, hydrateServerRenderedData } from "./api";
 
 // ReactDOM.render(<App />, document.getElementById("root"));
 
 const rootEl = document.getElementById('root') as HTMLElement // createRoot does not accept null values
-const root = ReactDOM.createRoot(rootEl)
-root.render(<App />)
\ No newline at end of file
+
+// Pages served by server.tsx come with the data they were rendered with
+const serverRenderedData = readServerRenderedData();
+if (serverRenderedData) {
+  hydrateServerRenderedData(serverRenderedData);
+  const root = ReactDOM.createRoot(rootEl, { hydrate: serverRenderedData.rendered })
+  root.render(<App browserHistory />)
+} else {
+  const root = ReactDOM.createRoot(rootEl)
+  root.render(<App />)
+}
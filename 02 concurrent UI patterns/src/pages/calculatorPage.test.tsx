@@ -0,0 +1,22 @@
+import { fireEvent } from "@testing-library/react";
+import { calculationCoalescer } from "../api";
+import { renderRoute, advanceTime } from "../testUtils";
+
+describe("CalculatorPage", () => {
+  it("recalculates once the edits have stopped, starting a single calculation for all of them", async () => {
+    const { getByText, getByLabelText } = renderRoute("/calculator");
+    await advanceTime(5000);
+    expect(getByText("Results for 15 + 3 * 2 - 4")).toBeInTheDocument();
+    const { started } = calculationCoalescer.getStats();
+
+    ["1", "12", "123"].forEach(value => fireEvent.change(getByLabelText("Start with"), { target: { value } }));
+    await advanceTime(400);
+    expect(calculationCoalescer.getStats().started).toBe(started);
+
+    await advanceTime(5000);
+
+    expect(calculationCoalescer.getStats().started).toBe(started + 1);
+    expect(getByText("Results for 123 + 3 * 2 - 4")).toBeInTheDocument();
+    expect(getByText("- 4 =")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,277 @@
+import * as React from "react";
+import { Redirect } from "react-router-dom";
+import {
+  requestCalculation, calculationCoalescer, getLatencyProfile, Calculation, CalculationRun, CalculationStep,
+  CalculationStrategy, Operator, RequestCoalescerStats,
+} from "../api";
+import { AsyncResource } from "./model";
+import { ErrorBoundary, renderRetryMessage } from "./errorBoundary";
+import { PreloadedPageProps } from "../router";
+import { PendingIndicator } from "../components";
+import { useTrackedTransition } from "../hooks";
+
+// Types
+interface CalculationRequest {
+  run: AsyncResource<CalculationRun>;
+}
+
+interface CalculationEditorProps {
+  calculation: Calculation;
+  onChange: (calculation: Calculation) => void;
+}
+
+interface StepEditorProps {
+  step: CalculationStep;
+  onChange: (changes: Partial<CalculationStep>) => void;
+  onRemove: () => void;
+}
+
+interface CalculationResultsProps {
+  request: CalculationRequest;
+}
+
+interface StepResultsProps {
+  run: CalculationRun;
+  index: number;
+}
+
+interface TimelineProps {
+  run: CalculationRun;
+}
+
+// Page
+const OPERATORS: Operator[] = ["+", "-", "*", "/"];
+
+const STRATEGY_LABELS: Record<CalculationStrategy, string> = {
+  waterfall: "Waterfall (each step waits for the previous one)",
+  parallel: "Parallel (all operands are requested at once)",
+};
+
+let nextStepId = 0;
+
+const createStep = (operator: Operator, operand: number, delayMs: number): CalculationStep => ({
+  id: nextStepId++,
+  operator,
+  operand,
+  delayMs,
+});
+
+const INITIAL_CALCULATION: Calculation = {
+  initialValue: 15,
+  steps: [createStep("+", 3, 1800), createStep("*", 2, 1000), createStep("-", 4, 600)],
+  strategy: "waterfall",
+};
+
+const describeStep = (step: CalculationStep) => `${step.operator} ${step.operand}`;
+
+export const preloadCalculatorPage = (): CalculationRequest => ({ run: requestCalculation(INITIAL_CALCULATION, 0) });
+
+export const Add3Redirect = () => <Redirect to="/calculator" />;
+
+const useCoalescerStats = () => {
+  const [stats, setStats] = React.useState<RequestCoalescerStats>(calculationCoalescer.getStats());
+  React.useEffect(() => calculationCoalescer.subscribe(setStats), []);
+  return stats;
+};
+
+export const CalculatorPage: React.FC<PreloadedPageProps<CalculationRequest>> = ({ resources }) => {
+  const [calculation, setCalculation] = React.useState<Calculation>(INITIAL_CALCULATION);
+  const [request, setRequest] = React.useState<CalculationRequest>(resources);
+  const [debounceMs, setDebounceMs] = React.useState<number>(calculationCoalescer.getDebounceMs());
+  const [startTransition, pending] = useTrackedTransition("calculation", 3000);
+  const stats = useCoalescerStats();
+
+  // The run on screen stays alive until another one replaces it
+  React.useEffect(() => request.run.retain(), [request]);
+
+  // Every edit recalculates, once the debounce has passed without another one
+  const handleChange = (nextCalculation: Calculation) => {
+    setCalculation(nextCalculation);
+    startTransition(() => {
+      setRequest({ run: requestCalculation(nextCalculation) });
+    });
+  };
+
+  const handleCalculate = () => {
+    startTransition(() => {
+      setRequest({ run: requestCalculation(calculation, 0) });
+    });
+  };
+
+  const handleDebounceChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = Math.max(0, Number(e.target.value));
+    setDebounceMs(value);
+    calculationCoalescer.setDebounceMs(value);
+  };
+
+  return (
+    <>
+      <h1>Calculator playground</h1>
+      <CalculationEditor calculation={calculation} onChange={handleChange} />
+      <button onClick={handleCalculate} disabled={pending}>Calculate now</button>
+      <PendingIndicator pending={pending} delayMs={500}>Calculating...</PendingIndicator>
+      <label style={{ display: "block" }}>
+        Recalculate after (ms){" "}
+        <input value={debounceMs} onChange={handleDebounceChange} type="number" min={0} step={100} />
+      </label>
+      <p>
+        {`${stats.requested} edits, ${stats.started} calculations started, ${stats.consumed} consumed`}
+      </p>
+      <ErrorBoundary fallback={renderRetryMessage} resetKeys={[request]} onReset={request.run.retry}>
+        <React.Suspense fallback={<p>Starting the calculation...</p>}>
+          <CalculationResults request={request} />
+        </React.Suspense>
+      </ErrorBoundary>
+    </>
+  );
+};
+
+// Components
+const CalculationEditor: React.FC<CalculationEditorProps> = ({ calculation, onChange }) => {
+  const { initialValue, steps, strategy } = calculation;
+
+  const updateStep = (id: number, changes: Partial<CalculationStep>) => {
+    onChange({ ...calculation, steps: steps.map(step => step.id === id ? { ...step, ...changes } : step) });
+  };
+
+  const removeStep = (id: number) => {
+    onChange({ ...calculation, steps: steps.filter(step => step.id !== id) });
+  };
+
+  const addStep = () => {
+    onChange({ ...calculation, steps: [...steps, createStep("+", 1, getLatencyProfile().calculationStep.delayMs)] });
+  };
+
+  return (
+    <>
+      <label>
+        Start with{" "}
+        <input
+          value={initialValue}
+          onChange={e => onChange({ ...calculation, initialValue: Number(e.target.value) })}
+          type="number"
+        />
+      </label>
+      <ol>
+        {steps.map(step => (
+          <StepEditor
+            key={step.id}
+            step={step}
+            onChange={changes => updateStep(step.id, changes)}
+            onRemove={() => removeStep(step.id)}
+          />
+        ))}
+      </ol>
+      <button onClick={addStep}>Add step</button>
+      {(Object.keys(STRATEGY_LABELS) as CalculationStrategy[]).map(option => (
+        <label key={option} style={{ display: "block" }}>
+          <input
+            type="radio"
+            checked={strategy === option}
+            onChange={() => onChange({ ...calculation, strategy: option })}
+          />
+          {STRATEGY_LABELS[option]}
+        </label>
+      ))}
+    </>
+  );
+};
+
+const StepEditor: React.FC<StepEditorProps> = ({ step, onChange, onRemove }) => (
+  <li>
+    <select value={step.operator} onChange={e => onChange({ operator: e.target.value as Operator })}>
+      {OPERATORS.map(operator => <option key={operator} value={operator}>{operator}</option>)}
+    </select>
+    <input value={step.operand} onChange={e => onChange({ operand: Number(e.target.value) })} type="number" />
+    <label>
+      {" taking "}
+      <input
+        value={step.delayMs}
+        onChange={e => onChange({ delayMs: Math.max(0, Number(e.target.value)) })}
+        type="number"
+        min={0}
+        step={100}
+      />
+      {" ms "}
+    </label>
+    <button onClick={onRemove}>Remove</button>
+  </li>
+);
+
+const CalculationResults: React.FC<CalculationResultsProps> = ({ request }) => {
+  const run = request.run.read();
+
+  // Steps still pending once another calculation is shown are cancelled
+  React.useEffect(() => {
+    const releases = run.steps.map(step => step.retain());
+    return () => releases.forEach(release => release());
+  }, [run]);
+
+  return (
+    <>
+      <h2>{`Results for ${run.calculation.initialValue} ${run.calculation.steps.map(describeStep).join(" ")}`}</h2>
+      <StepResults run={run} index={0} />
+    </>
+  );
+};
+
+// Every step gets its own boundaries, nested inside the previous step, so results show up one at a time
+const StepResults: React.FC<StepResultsProps> = ({ run, index }) => {
+  if (index === run.steps.length) {
+    return <Timeline run={run} />;
+  }
+  const resource = run.steps[index];
+  // Later steps failed along with this one, so they are retried as well
+  const retryFromHere = () => run.steps.slice(index).forEach(step => step.retry());
+
+  return (
+    <ErrorBoundary fallback={renderRetryMessage} resetKeys={[resource]} onReset={retryFromHere}>
+      <React.Suspense fallback={<p>{`Calculating ${describeStep(run.calculation.steps[index])}...`}</p>}>
+        <StepResultView run={run} index={index} />
+      </React.Suspense>
+    </ErrorBoundary>
+  );
+};
+
+const StepResultView: React.FC<StepResultsProps> = ({ run, index }) => {
+  const { value } = run.steps[index].read();
+  return (
+    <>
+      <p>
+        {`${describeStep(run.calculation.steps[index])} = `}
+        <b>{value}</b>
+      </p>
+      <StepResults run={run} index={index + 1} />
+    </>
+  );
+};
+
+// Only rendered once every step is done, so reading all of them never suspends
+const Timeline: React.FC<TimelineProps> = ({ run }) => {
+  const results = run.steps.map(step => step.read());
+  const totalMs = Math.max(1, ...results.map(result => result.settledAt - run.startedAt));
+  const toPercentage = (ms: number) => `${(ms / totalMs) * 100}%`;
+
+  return (
+    <>
+      <h3>{`Finished after ${Math.round(totalMs)} ms`}</h3>
+      {results.map((result, index) => (
+        <div key={run.calculation.steps[index].id} style={{ position: "relative", height: 20, marginBottom: 4 }}>
+          <div
+            style={{
+              position: "absolute",
+              left: toPercentage(result.startedAt - run.startedAt),
+              width: toPercentage(result.settledAt - result.startedAt),
+              height: "100%",
+              background: "#79b8ff",
+              whiteSpace: "nowrap",
+              fontSize: 12,
+            }}
+          >
+            {`${describeStep(run.calculation.steps[index])} (${Math.round(result.settledAt - result.startedAt)} ms)`}
+          </div>
+        </div>
+      ))}
+    </>
+  );
+};
@@ -0,0 +1,41 @@
+import * as React from "react";
+
+interface CommentComposerProps {
+  // Resolves to whether the comment was posted
+  onSubmit: (text: string) => Promise<boolean>;
+  error: string | null;
+}
+
+export const CommentComposer: React.FC<CommentComposerProps> = ({ onSubmit, error }) => {
+  const [text, setText] = React.useState("");
+  const isMountedRef = React.useRef(true);
+  React.useEffect(() => () => {
+    isMountedRef.current = false;
+  }, []);
+
+  // The box is cleared right away, as the comment already shows up in the list, and the text is put
+  // back if posting it fails, unless something else has been typed in the meantime
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const submittedText = text;
+    setText("");
+    onSubmit(submittedText).then(posted => {
+      if (!posted && isMountedRef.current) {
+        setText(currentText => currentText || submittedText);
+      }
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <textarea
+        placeholder="Leave a comment"
+        value={text}
+        onChange={e => setText(e.target.value)}
+      />
+      <br />
+      <button type="submit">Post comment</button>
+      {error ? <p role="alert" style={{ color: "red" }}>{error}</p> : null}
+    </form>
+  );
+};
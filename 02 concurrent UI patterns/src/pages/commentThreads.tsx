@@ -0,0 +1,52 @@
+import * as React from "react";
+import { SuspenseList } from "react";
+import { AsyncResource, CommentsVM, CommentThreadVM, ResponseVM } from "./model";
+import { ErrorBoundary, renderRetryMessage } from "./errorBoundary";
+
+interface CommentThreadsProps {
+  threads: AsyncResource<CommentThreadVM[]>;
+  isStale: boolean;
+  pendingComments?: CommentsVM[];
+}
+
+interface RepliesProps {
+  responses: AsyncResource<ResponseVM[]>;
+}
+
+// Every thread suspends on its own replies; the list reveals them top to bottom
+export const CommentThreads: React.FC<CommentThreadsProps> = ({ threads, isStale, pendingComments = [] }) => {
+  const commentThreads = threads.read();
+  return (
+    <ul style={{ opacity: isStale ? 0.7 : 1 }}>
+      <SuspenseList revealOrder="forwards" tail="collapsed">
+        {commentThreads.map(({ comment, responses }) => (
+          <li key={comment.id}>
+            {comment.text}
+            <ErrorBoundary fallback={renderRetryMessage} onReset={responses.retry}>
+              <React.Suspense fallback={<p>Loading replies...</p>}>
+                <Replies responses={responses} />
+              </React.Suspense>
+            </ErrorBoundary>
+          </li>
+        ))}
+      </SuspenseList>
+      {pendingComments.map(comment => (
+        <li key={comment.id} style={{ opacity: 0.5 }}>{`${comment.text} (sending...)`}</li>
+      ))}
+    </ul>
+  );
+};
+
+const Replies: React.FC<RepliesProps> = ({ responses }) => {
+  const replies = responses.read();
+  if (replies.length === 0) {
+    return null;
+  }
+  return (
+    <ul>
+      {replies.map(reply => (
+        <li key={reply.id}>{`User response: ${reply.text}`}</li>
+      ))}
+    </ul>
+  );
+};
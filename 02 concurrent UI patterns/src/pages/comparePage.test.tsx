@@ -0,0 +1,24 @@
+import { within } from "@testing-library/react";
+import { updateEndpointLatency } from "../api";
+import { renderRoute, advanceTime, click } from "../testUtils";
+
+describe("ComparePage", () => {
+  it("shows a retry message in the effect based panes when a request fails", async () => {
+    updateEndpointLatency("reviewer", { failureRate: 1 });
+    const { getByText } = renderRoute("/compare");
+    await advanceTime(3000);
+
+    const effectPane = within(getByText("Fetch-on-render").closest("section"));
+    const fetchThenRenderPane = within(getByText("Fetch-then-render").closest("section"));
+    expect(effectPane.getByRole("alert")).toHaveTextContent('Mock request to "reviewer" failed');
+    expect(fetchThenRenderPane.getByRole("alert")).toHaveTextContent('Mock request to "reviewer" failed');
+
+    updateEndpointLatency("reviewer", { failureRate: 0 });
+    click(effectPane.getByText("Retry"));
+    click(fetchThenRenderPane.getByText("Retry"));
+    await advanceTime(3000);
+
+    expect(effectPane.getByText("Reviewer: Marioli")).toBeInTheDocument();
+    expect(fetchThenRenderPane.getByText("Reviewer: Marioli")).toBeInTheDocument();
+  });
+});
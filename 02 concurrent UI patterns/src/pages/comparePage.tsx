@@ -0,0 +1,333 @@
+import * as React from "react";
+import { fetchReviewer, fetchCommentsForReviewer, fetchFreshReviewerData, getCodeReviewersResource } from "../api";
+import { ReviewerVM, AsyncResource, CommentsVM } from "./model";
+import { ErrorBoundary, RetryMessage, renderRetryMessage } from "./errorBoundary";
+import { PreloadLink, PreloadedPageProps } from "../router";
+import { TracedSuspense, TracedFallback } from "../components";
+import { useTransition, useIsomorphicLayoutEffect } from "../hooks";
+
+// Types
+interface ReviewerResource {
+  id: number;
+  reviewer: AsyncResource<ReviewerVM>;
+  comments: AsyncResource<CommentsVM[]>;
+}
+
+interface CompareResources {
+  reviewers: AsyncResource<ReviewerVM[]>;
+  reviewer: ReviewerResource;
+}
+
+interface ReviewerRequest {
+  id: number;
+  startedAt: number;
+}
+
+interface PaneMetrics {
+  requestStartedAt: number;
+  firstContentMs: number | null;
+  completeMs: number | null;
+  wrongReviewerFlashes: number;
+}
+
+type ShownPart = "reviewer" | "comments";
+
+type ReportShown = (part: ShownPart, reviewerId: number) => void;
+
+interface ShownComments {
+  reviewerId: number;
+  comments: CommentsVM[];
+}
+
+interface NextReviewerButtonProps {
+  reviewers: AsyncResource<ReviewerVM[]>;
+  id: number;
+  onNext: (nextId: number) => void;
+}
+
+interface ComparePaneProps {
+  title: string;
+  description: string;
+  request: ReviewerRequest;
+}
+
+interface FetchAttempt {
+  error: any;
+  // Bumped on retry, so the effect that failed runs again
+  attempt: number;
+  setError: (error: any) => void;
+  retry: () => void;
+}
+
+interface ReviewerIdProps {
+  id: number;
+}
+
+interface ReviewerResourceProps {
+  resource: ReviewerResource;
+}
+
+interface ReviewerHeadingProps {
+  reviewer: ReviewerVM;
+}
+
+interface CommentListProps {
+  reviewerId: number;
+  comments: CommentsVM[];
+}
+
+// Page
+const INITIAL_REVIEWER_ID = 3;
+
+const getNextId = (reviewers: ReviewerVM[], id: number) => {
+  const index = reviewers.findIndex(reviewer => reviewer.id === id);
+  return reviewers[(index + 1) % reviewers.length].id;
+};
+
+export const preloadComparePage = (): CompareResources => ({
+  reviewers: getCodeReviewersResource(),
+  reviewer: fetchFreshReviewerData(INITIAL_REVIEWER_ID),
+});
+
+export const ComparePage: React.FC<PreloadedPageProps<CompareResources>> = ({ resources }) => {
+  const [request, setRequest] = React.useState<ReviewerRequest>(() => ({
+    id: INITIAL_REVIEWER_ID,
+    startedAt: performance.now(),
+  }));
+  const [resource, setResource] = React.useState<ReviewerResource>(resources.reviewer);
+  const [startTransition] = useTransition(3000);
+
+  // The effect based panes react to the new id right away, while the Suspense based one
+  // starts its requests here and switches inside a transition
+  const handleNext = (nextId: number) => {
+    setRequest({ id: nextId, startedAt: performance.now() });
+    startTransition(() => {
+      setResource(fetchFreshReviewerData(nextId));
+    });
+  };
+
+  return (
+    <>
+      <h1>Comparing data fetching approaches</h1>
+      <p>
+        All three panes show the same reviewer from the same mock backend. Pick the "raceConditions" preset in
+        the latency panel and click "Next reviewer" quickly to see how each approach copes.
+      </p>
+      <ErrorBoundary fallback={renderRetryMessage} onReset={resources.reviewers.retry}>
+        <React.Suspense fallback={<p>Loading reviewers...</p>}>
+          <NextReviewerButton reviewers={resources.reviewers} id={request.id} onNext={handleNext} />
+        </React.Suspense>
+      </ErrorBoundary>
+      <div style={{ display: "flex", alignItems: "flex-start" }}>
+        <ComparePane
+          title="Fetch-on-render"
+          description="Every component fetches its own data in an effect once it has rendered"
+          request={request}
+        >
+          <EffectReviewer id={request.id} />
+          <EffectComments id={request.id} />
+        </ComparePane>
+        <ComparePane
+          title="Fetch-then-render"
+          description="The pane fetches everything in an effect and renders once all of it has arrived"
+          request={request}
+        >
+          <FetchThenRenderReviewer id={request.id} />
+        </ComparePane>
+        <ComparePane
+          title="Render-as-you-fetch"
+          description="Requests start on click, before rendering, and components suspend until their data is there"
+          request={request}
+        >
+          <ErrorBoundary fallback={renderRetryMessage} resetKeys={[resource]} onReset={resource.reviewer.retry}>
+            <TracedSuspense name="compare reviewer" fallback={<p>Loading reviewer...</p>}>
+              <SuspenseReviewer resource={resource} />
+              <ErrorBoundary fallback={renderRetryMessage} resetKeys={[resource]} onReset={resource.comments.retry}>
+                <TracedSuspense name="compare comments" fallback={<p>Loading comments...</p>}>
+                  <SuspenseComments resource={resource} />
+                </TracedSuspense>
+              </ErrorBoundary>
+            </TracedSuspense>
+          </ErrorBoundary>
+        </ComparePane>
+      </div>
+      <PreloadLink to="/">Back to home</PreloadLink>
+    </>
+  );
+};
+
+// Metrics
+const ReportShownContext = React.createContext<ReportShown>(() => undefined);
+
+// Timings are measured from the click on "Next reviewer". A flash is counted whenever a pane
+// switches to showing a reviewer other than the one requested last
+const usePaneMetrics = (request: ReviewerRequest): [PaneMetrics, ReportShown] => {
+  const [metrics, setMetrics] = React.useState<PaneMetrics>({
+    requestStartedAt: request.startedAt,
+    firstContentMs: null,
+    completeMs: null,
+    wrongReviewerFlashes: 0,
+  });
+  const shownRef = React.useRef<Record<ShownPart, number | null>>({ reviewer: null, comments: null });
+  // Children report from their layout effects, which run before any effect of this pane
+  const requestRef = React.useRef(request);
+  requestRef.current = request;
+
+  const report = React.useCallback<ReportShown>((part, reviewerId) => {
+    const { id, startedAt } = requestRef.current;
+    const elapsedMs = performance.now() - startedAt;
+    const shown = shownRef.current;
+    shown[part] = reviewerId;
+
+    setMetrics(current => {
+      const metricsForRequest = current.requestStartedAt === startedAt
+        ? current
+        : { ...current, requestStartedAt: startedAt, firstContentMs: null, completeMs: null };
+      if (reviewerId !== id) {
+        return { ...metricsForRequest, wrongReviewerFlashes: metricsForRequest.wrongReviewerFlashes + 1 };
+      }
+      return {
+        ...metricsForRequest,
+        firstContentMs: metricsForRequest.firstContentMs === null ? elapsedMs : metricsForRequest.firstContentMs,
+        completeMs: metricsForRequest.completeMs === null && shown.reviewer === id && shown.comments === id
+          ? elapsedMs
+          : metricsForRequest.completeMs,
+      };
+    });
+  }, []);
+
+  return [metrics, report];
+};
+
+const useReportShown = (part: ShownPart, reviewerId: number) => {
+  const report = React.useContext(ReportShownContext);
+  useIsomorphicLayoutEffect(() => {
+    report(part, reviewerId);
+  }, [part, reviewerId, report]);
+};
+
+const formatMs = (ms: number | null) => ms === null ? "..." : `${Math.round(ms)} ms`;
+
+// Components
+const NextReviewerButton: React.FC<NextReviewerButtonProps> = ({ reviewers, id, onNext }) => {
+  const nextId = getNextId(reviewers.read(), id);
+  return <button onClick={() => onNext(nextId)}>Next reviewer</button>;
+};
+
+const ComparePane: React.FC<ComparePaneProps> = ({ title, description, request, children }) => {
+  const [metrics, report] = usePaneMetrics(request);
+  const isCurrent = metrics.requestStartedAt === request.startedAt;
+
+  return (
+    <section style={{ flex: 1, padding: "0 8px" }}>
+      <h2>{title}</h2>
+      <p><i>{description}</i></p>
+      <dl>
+        <dt>Time to first content</dt>
+        <dd>{formatMs(isCurrent ? metrics.firstContentMs : null)}</dd>
+        <dt>Time to complete</dt>
+        <dd>{formatMs(isCurrent ? metrics.completeMs : null)}</dd>
+        <dt>Wrong reviewer shown</dt>
+        <dd>{`${metrics.wrongReviewerFlashes} times`}</dd>
+      </dl>
+      <ReportShownContext.Provider value={report}>
+        {children}
+      </ReportShownContext.Provider>
+    </section>
+  );
+};
+
+const ReviewerHeading: React.FC<ReviewerHeadingProps> = ({ reviewer }) => {
+  useReportShown("reviewer", reviewer.id);
+  return <h3>{`Reviewer: ${reviewer.name}`}</h3>;
+};
+
+const CommentList: React.FC<CommentListProps> = ({ reviewerId, comments }) => {
+  useReportShown("comments", reviewerId);
+  return (
+    <ul>
+      {comments.map(comment => (
+        <li key={comment.id}>{comment.text}</li>
+      ))}
+    </ul>
+  );
+};
+
+// Effects have no error boundary to fall back on, so the panes keep the error in state instead
+const useFetchAttempt = (): FetchAttempt => {
+  const [state, setState] = React.useState({ error: null, attempt: 0 });
+  return {
+    ...state,
+    setError: error => setState(current => ({ ...current, error })),
+    retry: () => setState(current => ({ error: null, attempt: current.attempt + 1 })),
+  };
+};
+
+// Fetch-on-render, like reviewerDetailsAppWithRaceCondition.tsx: nothing stops an older response
+// from arriving last and overwriting the newer one
+const EffectReviewer: React.FC<ReviewerIdProps> = ({ id }) => {
+  const [reviewer, setReviewer] = React.useState<ReviewerVM>(null);
+  const { error, attempt, setError, retry } = useFetchAttempt();
+  React.useEffect(() => {
+    setError(null);
+    fetchReviewer(id).then(reviewer => setReviewer(reviewer), setError);
+  }, [id, attempt]);
+
+  if (error) {
+    return <RetryMessage error={error} onRetry={retry} />;
+  }
+  if (reviewer === null) {
+    return <TracedFallback name="compare reviewer"><p>Loading reviewer...</p></TracedFallback>;
+  }
+  return <ReviewerHeading reviewer={reviewer} />;
+};
+
+const EffectComments: React.FC<ReviewerIdProps> = ({ id }) => {
+  const [shown, setShown] = React.useState<ShownComments>(null);
+  const { error, attempt, setError, retry } = useFetchAttempt();
+  React.useEffect(() => {
+    setError(null);
+    fetchCommentsForReviewer(id).then(comments => setShown({ reviewerId: id, comments }), setError);
+  }, [id, attempt]);
+
+  if (error) {
+    return <RetryMessage error={error} onRetry={retry} />;
+  }
+  if (shown === null) {
+    return <TracedFallback name="compare comments"><p>Loading comments...</p></TracedFallback>;
+  }
+  return <CommentList reviewerId={shown.reviewerId} comments={shown.comments} />;
+};
+
+// Fetch-then-render, like SecondaryPage: one request per screen, but just as exposed to races
+const FetchThenRenderReviewer: React.FC<ReviewerIdProps> = ({ id }) => {
+  const [data, setData] = React.useState<{ reviewer: ReviewerVM } & ShownComments>(null);
+  const { error, attempt, setError, retry } = useFetchAttempt();
+  React.useEffect(() => {
+    setError(null);
+    Promise.all([fetchReviewer(id), fetchCommentsForReviewer(id)])
+      .then(([reviewer, comments]) => setData({ reviewer, reviewerId: id, comments }), setError);
+  }, [id, attempt]);
+
+  if (error) {
+    return <RetryMessage error={error} onRetry={retry} />;
+  }
+  if (data === null) {
+    return <TracedFallback name="compare reviewer and comments"><p>Loading reviewer and comments...</p></TracedFallback>;
+  }
+  return (
+    <>
+      <ReviewerHeading reviewer={data.reviewer} />
+      <CommentList reviewerId={data.reviewerId} comments={data.comments} />
+    </>
+  );
+};
+
+// Render-as-you-fetch, like reviewerDetailsApp.tsx
+const SuspenseReviewer: React.FC<ReviewerResourceProps> = ({ resource }) => (
+  <ReviewerHeading reviewer={resource.reviewer.read()} />
+);
+
+const SuspenseComments: React.FC<ReviewerResourceProps> = ({ resource }) => (
+  <CommentList reviewerId={resource.id} comments={resource.comments.read()} />
+);
@@ -0,0 +1,45 @@
+import { fireEvent } from "@testing-library/react";
+import { mockDataSource } from "../api";
+import { renderRoute, advanceTime } from "../testUtils";
+
+describe("DetailsPage", () => {
+  it("shows the reviewers first and the comments once they arrive", async () => {
+    const { queryByText, getByText } = renderRoute("/pulls/1");
+
+    expect(getByText("Loading reviewers...")).toBeInTheDocument();
+    expect(queryByText("Loading comments...")).not.toBeInTheDocument();
+
+    await advanceTime(1000);
+
+    expect(getByText("Reviewer 3: Marioli")).toBeInTheDocument();
+    expect(getByText("Loading comments...")).toBeInTheDocument();
+    expect(queryByText("Loading reviewers...")).not.toBeInTheDocument();
+
+    await advanceTime(1000);
+
+    expect(getByText("Reviewer #3 says: What does it do?")).toBeInTheDocument();
+    expect(queryByText("Loading comments...")).not.toBeInTheDocument();
+  });
+
+  it("shows the pull request summary without waiting for the reviewers", async () => {
+    const { getByText } = renderRoute("/pulls/1");
+
+    await advanceTime(400);
+
+    expect(getByText("#1 Fetch reviewer data with Suspense")).toBeInTheDocument();
+    expect(getByText("Loading reviewers...")).toBeInTheDocument();
+  });
+
+  it("prefetches the files once their link has been hovered for a moment", async () => {
+    const { getByText } = renderRoute("/pulls/1");
+    await advanceTime(5000);
+    const fetchFileDiff = jest.spyOn(mockDataSource, "fetchFileDiff");
+
+    fireEvent.mouseEnter(getByText("View files changed"));
+    await advanceTime(100);
+    expect(fetchFileDiff).not.toHaveBeenCalled();
+
+    await advanceTime(50);
+    expect(fetchFileDiff).toHaveBeenCalled();
+  });
+});
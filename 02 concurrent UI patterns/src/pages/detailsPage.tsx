@@ -1,7 +1,20 @@
 import * as React from "react";
-import { Link } from "react-router-dom";
-import { fetchCodeReviewData } from "../api";
-import { ReviewerVM, AsyncResource, CommentsVM } from "./model";
+import { Redirect } from "react-router-dom";
+import { fetchPullRequestData } from "../api";
+import { PreloadLink, PreloadedPageProps, RouteParams } from "../router";
+import { ReviewerVM, AsyncResource, CommentsVM, PullRequestVM } from "./model";
+import { ErrorBoundary, renderRetryMessage } from "./errorBoundary";
+import { Avatar, TracedSuspense } from "../components";
+
+interface DetailsPageResources {
+  pullRequest: AsyncResource<PullRequestVM>;
+  reviewers: AsyncResource<ReviewerVM[]>;
+  comments: AsyncResource<CommentsVM[]>;
+}
+
+interface PRSummaryProps {
+  pullRequest: AsyncResource<PullRequestVM>;
+}
 
 interface PRRevierwersProps {
   reviewers: AsyncResource<ReviewerVM[]>;
@@ -11,6 +24,17 @@ interface PRCommentsProps {
   comments: AsyncResource<CommentsVM[]>;
 }
 
+const PullRequestSummary = (props: PRSummaryProps) => {
+  const pullRequest = props.pullRequest.read();
+  return (
+    <>
+      <h1>{`#${pullRequest.id} ${pullRequest.title}`}</h1>
+      <p>{`Opened by ${pullRequest.author} (${pullRequest.status})`}</p>
+      <p>{`Files changed: ${pullRequest.filesChanged.join(", ")}`}</p>
+    </>
+  );
+}
+
 const PullRequestComments = (props: PRCommentsProps) => {
   const comments = props.comments.read();
   return (
@@ -27,26 +51,44 @@ const PullRequestReviewers = (props: PRRevierwersProps) => {
   return (
     <ul>
       {reviewers.map(reviewer => (
-        <h2 key={reviewer.id}>{`Reviewer ${reviewer.id}: ${reviewer.name}`}</h2>
+        <h2 key={reviewer.id}>
+          <Avatar name={reviewer.name} src={reviewer.avatarUrl} size={32} />
+          {`Reviewer ${reviewer.id}: ${reviewer.name}`}
+        </h2>
       ))}
     </ul>
   );
 }
 
-export const DetailsPage = () => {
-  const resource = fetchCodeReviewData();
-  const { reviewers, comments } = resource;
+export const preloadDetailsPage = ({ id }: RouteParams): DetailsPageResources => fetchPullRequestData(Number(id));
+
+// The old single pull request url now points to the first pull request
+export const DetailsRedirect = () => <Redirect to="/pulls/1" />;
+
+export const DetailsPage: React.FC<PreloadedPageProps<DetailsPageResources>> = ({ resources, match }) => {
+  const { pullRequest, reviewers, comments } = resources;
 
   return (
     <div>
-      <React.Suspense fallback={<h2>Loading reviewers...</h2>}>
-        <PullRequestReviewers reviewers={reviewers}/>
-        <React.Suspense fallback={<h2>Loading comments...</h2>}>
-          <PullRequestComments comments={comments} />
-        </React.Suspense>
-      </React.Suspense>
+      <ErrorBoundary fallback={renderRetryMessage} onReset={pullRequest.retry}>
+        <TracedSuspense name="pull request" fallback={<h1>Loading pull request...</h1>}>
+          <PullRequestSummary pullRequest={pullRequest} />
+        </TracedSuspense>
+      </ErrorBoundary>
+      <ErrorBoundary fallback={renderRetryMessage} onReset={reviewers.retry}>
+        <TracedSuspense name="reviewers" fallback={<h2>Loading reviewers...</h2>}>
+          <PullRequestReviewers reviewers={reviewers}/>
+          <ErrorBoundary fallback={renderRetryMessage} onReset={comments.retry}>
+            <TracedSuspense name="comments" fallback={<h2>Loading comments...</h2>}>
+              <PullRequestComments comments={comments} />
+            </TracedSuspense>
+          </ErrorBoundary>
+        </TracedSuspense>
+      </ErrorBoundary>
+      <br />
+      <PreloadLink to={`${match.url}/files`}>View files changed</PreloadLink>
       <br />
-      <Link to="/">Back to home</Link>
+      <PreloadLink to="/pulls">Back to pull requests</PreloadLink>
     </div>
   );
 };
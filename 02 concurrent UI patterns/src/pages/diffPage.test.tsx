@@ -0,0 +1,33 @@
+import { mockDataSource, setDataSource } from "../api";
+import { renderRoute, advanceTime } from "../testUtils";
+
+const outdatedComment = {
+  id: 99, pullRequestId: 1, reviewerId: 5, path: "src/pages/detailsPage.tsx", line: 999, text: "Still needed?",
+};
+
+describe("DiffPage", () => {
+  afterEach(() => {
+    setDataSource(mockDataSource);
+  });
+
+  it("shows comments next to the line they were left on", async () => {
+    const { getByText, queryByText } = renderRoute("/pulls/1/files");
+    await advanceTime(5000);
+
+    expect(getByText("Reviewer #3 says: What does it do?")).toBeInTheDocument();
+    expect(queryByText("Outdated comments")).not.toBeInTheDocument();
+  });
+
+  it("lists the comments on lines the diff does not have below the file", async () => {
+    setDataSource({
+      ...mockDataSource,
+      fetchPullRequestComments: (id, signal) =>
+        mockDataSource.fetchPullRequestComments(id, signal).then(comments => [...comments, outdatedComment]),
+    });
+    const { getByText } = renderRoute("/pulls/1/files");
+    await advanceTime(5000);
+
+    expect(getByText("Outdated comments")).toBeInTheDocument();
+    expect(getByText("Line 999: Reviewer #5 says: Still needed?")).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,179 @@
+import * as React from "react";
+import { SuspenseList } from "react";
+import { fetchPullRequestDiffData } from "../api";
+import { PreloadLink, PreloadedPageProps, RouteParams } from "../router";
+import { AsyncResource, PullRequestVM, ChangedFileVM, CommentsVM, DiffLineVM, FileDiffVM } from "./model";
+import { ErrorBoundary, renderRetryMessage } from "./errorBoundary";
+import { useDeferredValue } from "../hooks";
+
+// Types
+interface DiffPageResources {
+  id: number;
+  pullRequest: AsyncResource<PullRequestVM>;
+  files: AsyncResource<ChangedFileVM[]>;
+  comments: AsyncResource<CommentsVM[]>;
+}
+
+interface ChangedFilesProps {
+  resources: DiffPageResources;
+  filter: string;
+  isStale: boolean;
+}
+
+interface FileDiffProps {
+  file: ChangedFileVM;
+  comments: CommentsVM[];
+  filter: string;
+}
+
+interface DiffLineProps {
+  line: DiffLineVM;
+  comments: CommentsVM[];
+}
+
+interface OutdatedCommentsProps {
+  comments: CommentsVM[];
+}
+
+const NO_COMMENTS: CommentsVM[] = [];
+
+const LINE_PREFIX = { context: " ", add: "+", remove: "-" };
+const LINE_BACKGROUND = { context: "transparent", add: "#e6ffed", remove: "#ffeef0" };
+
+// Page
+export const preloadDiffPage = ({ id }: RouteParams): DiffPageResources => fetchPullRequestDiffData(Number(id));
+
+export const DiffPage: React.FC<PreloadedPageProps<DiffPageResources>> = ({ resources }) => {
+  const [filter, setFilter] = React.useState("");
+  // Filtering thousands of lines is slow, so the diff follows the input at a lower priority
+  const deferredFilter = useDeferredValue(filter, 2000);
+
+  return (
+    <div>
+      <ErrorBoundary fallback={renderRetryMessage} onReset={resources.pullRequest.retry}>
+        <React.Suspense fallback={<h1>Loading pull request...</h1>}>
+          <DiffTitle pullRequest={resources.pullRequest} />
+        </React.Suspense>
+      </ErrorBoundary>
+      <input
+        placeholder="Filter lines"
+        value={filter}
+        onChange={e => setFilter(e.target.value)}
+      />
+      <ErrorBoundary fallback={renderRetryMessage} onReset={resources.files.retry}>
+        <React.Suspense fallback={<h2>Loading files...</h2>}>
+          <ChangedFiles resources={resources} filter={deferredFilter} isStale={filter !== deferredFilter} />
+        </React.Suspense>
+      </ErrorBoundary>
+      <br />
+      <PreloadLink to={`/pulls/${resources.id}`}>Back to pull request</PreloadLink>
+    </div>
+  );
+};
+
+// Components
+const DiffTitle = (props: { pullRequest: AsyncResource<PullRequestVM> }) => {
+  const pullRequest = props.pullRequest.read();
+  return <h1>{`Files changed in #${pullRequest.id} ${pullRequest.title}`}</h1>;
+};
+
+// Files are revealed strictly in order, so a slow first file keeps the ones below from jumping around
+const ChangedFiles: React.FC<ChangedFilesProps> = ({ resources, filter, isStale }) => {
+  const files = resources.files.read();
+  const comments = resources.comments.read();
+  // Grouped once, so that FileDiff only renders again when the filter changes
+  const commentsByPath = React.useMemo(() => comments.reduce<Record<string, CommentsVM[]>>(
+    (groups, comment) => comment.path
+      ? { ...groups, [comment.path]: [...(groups[comment.path] || []), comment] }
+      : groups,
+    {}
+  ), [comments]);
+  return (
+    <div style={{ opacity: isStale ? 0.7 : 1 }}>
+      <SuspenseList revealOrder="forwards" tail="collapsed">
+        {files.map(file => (
+          <ErrorBoundary key={file.path} fallback={renderRetryMessage} onReset={file.diff.retry}>
+            <React.Suspense fallback={<h3>{`Loading ${file.path}...`}</h3>}>
+              <FileDiff
+                file={file}
+                comments={commentsByPath[file.path] || NO_COMMENTS}
+                filter={filter}
+              />
+            </React.Suspense>
+          </ErrorBoundary>
+        ))}
+      </SuspenseList>
+    </div>
+  );
+};
+
+const getNewLines = (diff: FileDiffVM) => new Set(diff.hunks.reduce<number[]>(
+  (newLines, hunk) => [...newLines, ...hunk.lines.filter(line => line.newLine !== null).map(line => line.newLine)],
+  []
+));
+
+const FileDiff = React.memo<FileDiffProps>(({ file, comments, filter }) => {
+  const diff = file.diff.read();
+  // Comments on lines the diff does not have, e.g. left on an earlier version of the file, would never
+  // show up next to a line
+  const outdatedComments = React.useMemo(() => {
+    const newLines = getNewLines(diff);
+    return comments.filter(comment => !newLines.has(comment.line));
+  }, [diff, comments]);
+  const normalizedFilter = filter.trim().toLowerCase();
+  const matches = (line: DiffLineVM) => line.content.toLowerCase().includes(normalizedFilter);
+
+  return (
+    <section>
+      <h3>{diff.path}</h3>
+      <table style={{ fontFamily: "monospace", borderCollapse: "collapse" }}>
+        {diff.hunks.map(hunk => (
+          <tbody key={hunk.header}>
+            <tr>
+              <td colSpan={3} style={{ color: "gray" }}>{hunk.header}</td>
+            </tr>
+            {hunk.lines.filter(matches).map(line => (
+              <DiffLineRow
+                key={`${line.oldLine}:${line.newLine}`}
+                line={line}
+                comments={comments.filter(comment => line.newLine !== null && comment.line === line.newLine)}
+              />
+            ))}
+          </tbody>
+        ))}
+      </table>
+      <OutdatedComments comments={outdatedComments} />
+    </section>
+  );
+});
+
+const DiffLineRow: React.FC<DiffLineProps> = ({ line, comments }) => (
+  <>
+    <tr style={{ background: LINE_BACKGROUND[line.type] }}>
+      <td>{line.oldLine}</td>
+      <td>{line.newLine}</td>
+      <td style={{ whiteSpace: "pre" }}>{`${LINE_PREFIX[line.type]} ${line.content}`}</td>
+    </tr>
+    {comments.map(comment => (
+      <tr key={comment.id}>
+        <td colSpan={3} style={{ border: "1px solid gray", padding: 4 }}>
+          {`Reviewer #${comment.reviewerId} says: ${comment.text}`}
+        </td>
+      </tr>
+    ))}
+  </>
+);
+
+const OutdatedComments: React.FC<OutdatedCommentsProps> = ({ comments }) => comments.length === 0 ? null : (
+  <>
+    <h4>Outdated comments</h4>
+    <ul>
+      {comments.map(comment => (
+        <li key={comment.id}>
+          {comment.line ? `Line ${comment.line}: ` : ""}
+          {`Reviewer #${comment.reviewerId} says: ${comment.text}`}
+        </li>
+      ))}
+    </ul>
+  </>
+);
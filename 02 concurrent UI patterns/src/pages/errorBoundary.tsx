@@ -1,21 +1,65 @@
 import * as React from "react";
 
+type FallbackRender = (error: any, reset: () => void) => React.ReactNode;
+
 interface Props {
-  fallback: React.ReactNode;
+  fallback: React.ReactNode | FallbackRender;
+  // Whenever any of these values changes, a caught error is cleared and children are rendered again
+  resetKeys?: any[];
+  // Called when the fallback asks for a reset, e.g. to retry the resource that failed
+  onReset?: () => void;
+}
+
+interface State {
+  hasError: boolean;
+  error: any;
 }
 
-export class ErrorBoundary extends React.Component<Props> {
-  state = { hasError: false, error: null };
+interface RetryMessageProps {
+  error: any;
+  onRetry: () => void;
+}
+
+const haveResetKeysChanged = (prevKeys: any[] = [], nextKeys: any[] = []) =>
+  prevKeys.length !== nextKeys.length || prevKeys.some((key, index) => key !== nextKeys[index]);
+
+export class ErrorBoundary extends React.Component<Props, State> {
+  state: State = { hasError: false, error: null };
   static getDerivedStateFromError(error) {
     return {
       hasError: true,
       error
     };
   }
+  componentDidUpdate(prevProps: Props) {
+    if (this.state.hasError && haveResetKeysChanged(prevProps.resetKeys, this.props.resetKeys)) {
+      this.setState({ hasError: false, error: null });
+    }
+  }
+  reset = () => {
+    if (this.props.onReset) {
+      this.props.onReset();
+    }
+    this.setState({ hasError: false, error: null });
+  };
   render() {
     if (this.state.hasError) {
-      return this.props.fallback;
+      const { fallback } = this.props;
+      return typeof fallback === "function"
+        ? (fallback as FallbackRender)(this.state.error, this.reset)
+        : fallback;
     }
     return this.props.children;
   }
-}
\ No newline at end of file
+}
+
+export const RetryMessage: React.FC<RetryMessageProps> = ({ error, onRetry }) => (
+  <div role="alert">
+    <p>{`Something went wrong: ${error && error.message ? error.message : error}`}</p>
+    <button onClick={onRetry}>Retry</button>
+  </div>
+);
+
+export const renderRetryMessage: FallbackRender = (error, reset) => (
+  <RetryMessage error={error} onRetry={reset} />
+);
@@ -1,9 +1,19 @@
 import * as React from "react";
-import { Link } from "react-router-dom";
+import { PreloadLink } from "../router";
 
 export const MainPage = () => 
   <div>
     <h2>Welcome to the suspense training</h2>
     <br />
-    <Link to="/details">Navigate to details</Link>
+    <PreloadLink to="/pulls">Navigate to pull requests</PreloadLink>
+    <br />
+    <PreloadLink to="/directory">Browse the reviewer directory</PreloadLink>
+    <br />
+    <PreloadLink to="/calculator">Play with the calculator</PreloadLink>
+    <br />
+    <PreloadLink to="/secondary">Fetch-on-render version of the pull request page</PreloadLink>
+    <br />
+    <PreloadLink to="/compare">Compare the data fetching approaches side by side</PreloadLink>
+    <br />
+    <PreloadLink to="/raceCondition">Detect the race condition of fetching in effects</PreloadLink>
   </div>
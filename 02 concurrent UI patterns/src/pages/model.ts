@@ -1,14 +1,60 @@
 export interface ReviewerVM {
   name: string;
   id: number;
+  avatarUrl?: string;
+}
+
+export interface PullRequestVM {
+  id: number;
+  title: string;
+  author: string;
+  status: string;
+  filesChanged: string[];
 }
 
 export interface CommentsVM {
   id: number;
   text: string;
   reviewerId: number;
+  path?: string;
+  line?: number;
+}
+
+export interface DiffLineVM {
+  type: "context" | "add" | "remove";
+  content: string;
+  oldLine: number | null;
+  newLine: number | null;
+}
+
+export interface FileDiffVM {
+  path: string;
+  hunks: { header: string; lines: DiffLineVM[] }[];
+}
+
+export interface ChangedFileVM {
+  path: string;
+  diff: AsyncResource<FileDiffVM>;
 }
 
+export interface ResponseVM {
+  id: number;
+  text: string;
+  reviewerId: number;
+  parentCommentId: number;
+}
+
+export interface CommentThreadVM {
+  comment: CommentsVM;
+  responses: AsyncResource<ResponseVM[]>;
+}
+
+export type AsyncResourceStatus = "pending" | "success" | "error";
+
 export interface AsyncResource<T> {
   read: () => T;
+  peek: () => T | undefined;
+  getStatus: () => AsyncResourceStatus;
+  retry: () => void;
+  retain: () => () => void;
 }
@@ -0,0 +1,41 @@
+import * as React from "react";
+import { getPullRequestsResource } from "../api";
+import { PreloadLink, PreloadedPageProps } from "../router";
+import { AsyncResource, PullRequestVM } from "./model";
+import { ErrorBoundary, renderRetryMessage } from "./errorBoundary";
+import { TransitionLink } from "../components";
+
+interface PullRequestListProps {
+  pullRequests: AsyncResource<PullRequestVM[]>;
+}
+
+const PullRequestList = (props: PullRequestListProps) => {
+  const pullRequests = props.pullRequests.read();
+  return (
+    <ul>
+      {pullRequests.map(pullRequest => (
+        <li key={pullRequest.id}>
+          <TransitionLink to={`/pulls/${pullRequest.id}`} pendingContent=" Opening..." spinnerDelayMs={200}>
+            {`#${pullRequest.id} ${pullRequest.title}`}
+          </TransitionLink>
+          {` by ${pullRequest.author} (${pullRequest.status})`}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export const preloadPullRequestsPage = (): AsyncResource<PullRequestVM[]> => getPullRequestsResource();
+
+export const PullRequestsPage: React.FC<PreloadedPageProps<AsyncResource<PullRequestVM[]>>> = ({ resources }) => (
+  <div>
+    <h1>Pull requests</h1>
+    <ErrorBoundary fallback={renderRetryMessage} onReset={resources.retry}>
+      <React.Suspense fallback={<h2>Loading pull requests...</h2>}>
+        <PullRequestList pullRequests={resources} />
+      </React.Suspense>
+    </ErrorBoundary>
+    <br />
+    <PreloadLink to="/">Back to home</PreloadLink>
+  </div>
+);
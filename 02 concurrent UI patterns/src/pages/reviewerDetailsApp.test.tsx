@@ -0,0 +1,153 @@
+import { fireEvent } from "@testing-library/react";
+import { resourceCache, mockDataSource, setLatencyProfile, LATENCY_PRESETS } from "../api";
+import { renderRoute, advanceTime, click } from "../testUtils";
+
+describe("ReviewerDetailsApp", () => {
+  it("keeps the current reviewer on screen while the next one is pending", async () => {
+    const { getByText, queryByText, getByRole } = renderRoute("/reviewers/3/comments");
+    await advanceTime(5000);
+    expect(getByText("Reviewer: Marioli")).toBeInTheDocument();
+
+    click(getByText("Next Reviewer"));
+    await advanceTime(250);
+
+    // The url already points to the next reviewer, but the deferred view keeps the current one
+    expect(getByText("Reviewer: Marioli")).toBeVisible();
+    expect(queryByText("Loading Reviewer Details App...")).not.toBeInTheDocument();
+    expect(getByRole("status")).toHaveTextContent("Loading reviewer...");
+
+    await advanceTime(50);
+
+    expect(getByText("Reviewer: Carlos")).toBeVisible();
+    expect(queryByText("Reviewer: Marioli")).not.toBeInTheDocument();
+    expect(getByText("Next Reviewer")).toBeEnabled();
+    expect(getByRole("status")).not.toHaveTextContent("Loading reviewer...");
+  });
+
+  it("opens the reviewer view from the home page", async () => {
+    const { getByText } = renderRoute("/reviewers/3");
+    await advanceTime(1000);
+    expect(getByText("Home Page")).toBeInTheDocument();
+
+    click(getByText("Open reviewer view"));
+    await advanceTime(300);
+
+    expect(getByText("Reviewer: Marioli")).toBeInTheDocument();
+  });
+
+  it("keeps the requests of the reviewer going when the comments tab opens before they arrive", async () => {
+    setLatencyProfile(LATENCY_PRESETS.basics);
+    const { getByText, queryByRole } = renderRoute("/reviewers/3");
+    await advanceTime(10);
+
+    click(getByText("Open reviewer view"));
+    await advanceTime(5000);
+
+    expect(getByText("Reviewer: Marioli")).toBeInTheDocument();
+    expect(getByText("What does it do?")).toBeInTheDocument();
+    expect(queryByRole("alert")).not.toBeInTheDocument();
+  });
+
+  it("shows the data saved on the last visit while revalidating it", async () => {
+    const firstVisit = renderRoute("/reviewers/3/comments");
+    await advanceTime(5000);
+    expect(firstVisit.getByText("What does it do?")).toBeInTheDocument();
+    resourceCache.invalidateAll();
+
+    const { getByText, queryByText } = renderRoute("/reviewers/3/comments");
+    await advanceTime(10);
+
+    expect(queryByText("Loading Reviewer Details App...")).not.toBeInTheDocument();
+    expect(getByText("Reviewer: Marioli")).toHaveStyle("opacity: 0.7");
+    expect(getByText("What does it do?")).toBeInTheDocument();
+    expect(getByText("Showing the data saved on your last visit, refreshing...")).toBeInTheDocument();
+
+    await advanceTime(5000);
+
+    expect(getByText("Reviewer: Marioli")).toHaveStyle("opacity: 1");
+    expect(queryByText("Showing the data saved on your last visit, refreshing...")).not.toBeInTheDocument();
+  });
+
+  it("offers to retry when refreshing the saved data fails", async () => {
+    const firstVisit = renderRoute("/reviewers/3/comments");
+    await advanceTime(5000);
+    expect(firstVisit.getByText("What does it do?")).toBeInTheDocument();
+    resourceCache.invalidateAll();
+    jest.spyOn(mockDataSource, "fetchReviewer").mockRejectedValueOnce(new Error("Server error"));
+
+    const { getByText, queryByText } = renderRoute("/reviewers/3/comments");
+    await advanceTime(5000);
+
+    expect(getByText("Offline data, refresh failed")).toBeInTheDocument();
+    expect(queryByText("Showing the data saved on your last visit, refreshing...")).not.toBeInTheDocument();
+    expect(getByText("Reviewer: Marioli")).toHaveStyle("opacity: 0.7");
+
+    click(getByText("Retry"));
+    expect(getByText("Showing the data saved on your last visit, refreshing...")).toBeInTheDocument();
+    await advanceTime(5000);
+
+    expect(queryByText("Offline data, refresh failed")).not.toBeInTheDocument();
+    expect(getByText("Reviewer: Marioli")).toHaveStyle("opacity: 1");
+  });
+
+  it("recovers once a retry loads the reviewer list that failed", async () => {
+    jest.spyOn(mockDataSource, "fetchCodeReviewers").mockRejectedValueOnce(new Error("Server error"));
+
+    const { getByText } = renderRoute("/reviewers/3/comments");
+    await advanceTime(5000);
+    expect(getByText("Retry")).toBeInTheDocument();
+
+    click(getByText("Retry"));
+    await advanceTime(5000);
+
+    expect(getByText("Reviewer: Marioli")).toBeInTheDocument();
+    expect(getByText("Next Reviewer")).toBeEnabled();
+  });
+
+  it("puts the text of a comment that could not be posted back in the box", async () => {
+    jest.spyOn(mockDataSource, "postComment").mockRejectedValueOnce(new Error("Server error"));
+    const { getByText, getByPlaceholderText, getByRole } = renderRoute("/reviewers/3/comments");
+    await advanceTime(5000);
+
+    fireEvent.change(getByPlaceholderText("Leave a comment"), { target: { value: "Looks good to me" } });
+    click(getByText("Post comment"));
+    expect(getByPlaceholderText("Leave a comment")).toHaveValue("");
+    await advanceTime(1000);
+
+    expect(getByRole("alert")).toHaveTextContent("Your comment could not be posted: Server error");
+    expect(getByPlaceholderText("Leave a comment")).toHaveValue("Looks good to me");
+  });
+
+  it("prefetches the next reviewer once the button has been hovered for a moment", async () => {
+    const { getByText } = renderRoute("/reviewers/3/comments");
+    await advanceTime(5000);
+    const fetchReviewer = jest.spyOn(mockDataSource, "fetchReviewer");
+
+    fireEvent.mouseEnter(getByText("Next Reviewer"));
+    await advanceTime(100);
+    expect(fetchReviewer).not.toHaveBeenCalled();
+
+    await advanceTime(50);
+    expect(fetchReviewer).toHaveBeenCalledWith(5, expect.anything());
+
+    await advanceTime(300);
+    click(getByText("Next Reviewer"));
+    await advanceTime(10);
+
+    expect(getByText("Reviewer: Carlos")).toBeVisible();
+    expect(fetchReviewer).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not prefetch when the pointer leaves before the delay", async () => {
+    const { getByText } = renderRoute("/reviewers/3");
+    await advanceTime(1000);
+    const fetchReviewer = jest.spyOn(mockDataSource, "fetchReviewer");
+
+    fireEvent.mouseEnter(getByText("Open reviewer view"));
+    await advanceTime(100);
+    fireEvent.mouseLeave(getByText("Open reviewer view"));
+    await advanceTime(500);
+
+    expect(fetchReviewer).not.toHaveBeenCalled();
+  });
+});
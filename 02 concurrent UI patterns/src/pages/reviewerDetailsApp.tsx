@@ -1,142 +1,290 @@
 import * as React from "react";
-import { fetchCodeReviewerData } from "../api";
-import { ReviewerVM, AsyncResource, CommentsVM } from "./model";
-import { ErrorBoundary } from "./errorBoundary";
-import { Button } from "../components";
+import { Redirect } from "react-router-dom";
+import {
+  fetchCodeReviewerData, getCodeReviewersResource, getCommentThreadsResource, getOfflineReviewerData, postComment,
+} from "../api";
+import { ReviewerVM, AsyncResource, CommentsVM, CommentThreadVM, ResponseVM } from "./model";
+import { ErrorBoundary, renderRetryMessage } from "./errorBoundary";
+import { CommentComposer } from "./commentComposer";
+import { CommentThreads } from "./commentThreads";
+import { Button, Avatar } from "../components";
+import { useTransition, useDeferredValue, useReportPending } from "../hooks";
+import { PreloadedPageProps, RouteParams } from "../router";
 
 // Types
 interface ReviewerResource {
+  id: number;
   reviewer: AsyncResource<ReviewerVM>;
   comments: AsyncResource<CommentsVM[]>;
-  responses: AsyncResource<CommentsVM[]>;
+  responses: AsyncResource<ResponseVM[]>;
+  threads: AsyncResource<CommentThreadVM[]>;
+  reviewers: AsyncResource<ReviewerVM[]>;
+  offline: OfflineReviewerResource | null;
+}
+
+interface OfflineReviewerResource {
+  reviewer?: AsyncResource<ReviewerVM>;
+  reviewers?: AsyncResource<ReviewerVM[]>;
+  threads?: AsyncResource<CommentThreadVM[]>;
+  revalidated: Promise<boolean>;
+  retry: () => Promise<boolean>;
+}
+
+type RevalidationStatus = "pending" | "failed" | "done";
+
+interface Revalidation {
+  resource: ReviewerResource;
+  status: RevalidationStatus;
+}
+
+interface OfflineData {
+  resource: ReviewerResource;
+  status: RevalidationStatus;
+  retry: () => void;
+}
+
+interface ReviewerView {
+  tab: TABS;
+  resource: ReviewerResource;
 }
 
 interface HomePageProps {
   onClick: () => void;
+  reviewerPath: string;
 }
 
 interface ReviewerPageProps {
   resource: ReviewerResource;
-  onClick: () => void;
+  onClick: (nextId: number) => void;
 }
 
 interface ReviewerProps {
   resource: ReviewerResource;
+  isStale: boolean;
 }
 
-interface CommentsProps {
-  resource: ReviewerResource;
-  isStale: boolean;
+interface RefreshFailedMessageProps {
+  onRetry: () => void;
+}
+
+interface RefreshedThreads {
+  id: number;
+  threads: AsyncResource<CommentThreadVM[]>;
 }
 
 // App
-const getNextId = (id: number) => {
-  switch(id) {
-    case 3:
-      return 5;
-    case 5: 
-      return 7;
-    default:
-      return 3;
-  }
+const INITIAL_REVIEWER_ID = 3;
+
+const getNextId = (reviewers: ReviewerVM[], id: number) => {
+  const index = reviewers.findIndex(reviewer => reviewer.id === id);
+  return reviewers[(index + 1) % reviewers.length].id;
 };
-const initialResource = fetchCodeReviewerData(3);
+
+export const preloadReviewerDetailsApp = ({ id }: RouteParams): ReviewerResource => ({
+  ...fetchCodeReviewerData(Number(id)),
+  reviewers: getCodeReviewersResource(),
+  offline: getOfflineReviewerData(Number(id)),
+});
 
 enum TABS {
   HOME = 'HOME',
   REVIEWER_DETAILS = 'REVIEWER_DETAILS',
 }
 
-export const ReviewerDetailsApp = () => {
-  const [resource, setResource] = React.useState(initialResource);
-  const [tab, setTab] = React.useState<string>(TABS.HOME);
+const getReviewerPath = (id: number, tab: TABS) =>
+  tab === TABS.REVIEWER_DETAILS ? `/reviewers/${id}/comments` : `/reviewers/${id}`;
+
+export const ReviewerDetailsRedirect = () => <Redirect to={getReviewerPath(INITIAL_REVIEWER_ID, TABS.HOME)} />;
+
+export const ReviewerDetailsApp: React.FC<PreloadedPageProps<ReviewerResource>> = ({ resources, match, history }) => {
+  const tab = match.params.tab === "comments" ? TABS.REVIEWER_DETAILS : TABS.HOME;
+  const requestedView = React.useMemo<ReviewerView>(() => ({ tab, resource: resources }), [tab, resources]);
+  // The url changes right away, also on browser back/forward, which does not start a transition by itself.
+  // Deferring the view keeps the previous reviewer on screen until the requested one is ready
+  const view = useDeferredValue(requestedView, 3000);
+  const { resource } = view;
+  useReportPending(view !== requestedView, "reviewer");
+
+  // Once another reviewer is shown, requests still pending for the previous one are cancelled. Switching
+  // tabs wraps the same cached requests in a new resource, so the effect follows the requests themselves
+  const { reviewer, comments, responses, threads } = resource;
+  React.useEffect(() => {
+    const releases = [reviewer, comments, responses, threads].map(r => r.retain());
+    return () => releases.forEach(release => release());
+  }, [reviewer, comments, responses, threads]);
+
+  const handleOpen = () => {
+    history.push(getReviewerPath(resource.id, TABS.REVIEWER_DETAILS));
+  };
+
+  const handleNext = (nextId: number) => {
+    history.push(getReviewerPath(nextId, TABS.REVIEWER_DETAILS));
+  };
 
-  const handleClick = () => {
-    const nextUserId = getNextId(resource.id);
-    setResource(fetchCodeReviewerData(nextUserId));
-    setTab(TABS.REVIEWER_DETAILS);
+  // Both reviewer pages read the reviewer list as well, so a retry restarts whichever of them failed
+  const handleRetry = () => {
+    resource.reviewer.retry();
+    resource.reviewers.retry();
   };
 
   const renderPage = () => {
-    switch (tab) {
+    switch (view.tab) {
       case TABS.HOME:
-        return <HomePage onClick={handleClick} />;
+        return <HomePage onClick={handleOpen} reviewerPath={getReviewerPath(resource.id, TABS.REVIEWER_DETAILS)} />;
       case TABS.REVIEWER_DETAILS:
-        return <ReviewerPage onClick={handleClick} resource={resource} />;
+        return <ReviewerPage onClick={handleNext} resource={resource} />;
     }
   }
 
   return (
     <>
-      <React.Suspense fallback={<h1>Loading Reviewer Details App...</h1>}>
-        {renderPage()}
-      </React.Suspense>
+      <ErrorBoundary
+        fallback={renderRetryMessage}
+        resetKeys={[resource.id]}
+        onReset={handleRetry}
+      >
+        <React.Suspense fallback={<h1>Loading Reviewer Details App...</h1>}>
+          {renderPage()}
+        </React.Suspense>
+      </ErrorBoundary>
     </>
   );
 };
 
 // Subpages and components
-const HomePage: React.FC<HomePageProps> = ({ onClick }) => (
+const HomePage: React.FC<HomePageProps> = ({ onClick, reviewerPath }) => (
   <>
     <h1>Home Page</h1>
-    <Button onClick={onClick}>
+    <Button onClick={onClick} label="reviewer" prefetchTo={reviewerPath}>
       Open reviewer view
     </Button>
   </>
 );
 
-const ReviewerPage: React.FC<ReviewerPageProps> = ({ resource, onClick }) => {
-  //@ts-ignore
-  const deferredResource: ReviewerResource = React.useDeferredValue(resource, { timeoutMs: 1500 });
-  return (
-    <>
-      <PullRequestReviewer resource={resource} />
-      <Button onClick={onClick}>
-        Next Reviewer
-      </Button>
-      <React.Suspense fallback={<h2>Loading comments...</h2>}>
-        <PullRequestComments
-          resource={deferredResource}
-          isStale={resource !== deferredResource}
-        />
-      </React.Suspense>
-      <React.Suspense fallback={<h2>Loading responses... </h2>}>
-        <PullRequestResponses
-          resource={deferredResource}
-          isStale={resource !== deferredResource}
-        />
-      </React.Suspense>
-    </>
-  );
+// Stale while revalidate: the data saved on a previous visit is shown right away, dimmed, and replaced
+// once the fresh data has fully loaded. When loading it fails the saved data stays on screen until a
+// retry succeeds
+const useOfflineData = (resource: ReviewerResource): OfflineData => {
+  const [revalidation, setRevalidation] = React.useState<Revalidation>(null);
+  // The resource on screen, so that revalidations finishing after the page moved on are ignored
+  const shownResourceRef = React.useRef<ReviewerResource>(null);
+  const { offline } = resource;
+  const status: RevalidationStatus = !offline ? "done"
+    : revalidation && revalidation.resource === resource ? revalidation.status : "pending";
+  const isOffline = status !== "done";
+
+  const waitForRevalidation = (revalidated: Promise<boolean>) => {
+    revalidated.then(ok => {
+      if (shownResourceRef.current === resource) {
+        setRevalidation({ resource, status: ok ? "done" : "failed" });
+      }
+    });
+  };
+
+  React.useEffect(() => {
+    shownResourceRef.current = resource;
+    if (offline) {
+      waitForRevalidation(offline.revalidated);
+    }
+    return () => {
+      shownResourceRef.current = null;
+    };
+  }, [resource]);
+
+  const retry = () => {
+    setRevalidation({ resource, status: "pending" });
+    waitForRevalidation(offline.retry());
+  };
+
+  const displayedResource = React.useMemo<ReviewerResource>(() => isOffline ? {
+    ...resource,
+    reviewer: offline.reviewer || resource.reviewer,
+    reviewers: offline.reviewers || resource.reviewers,
+    threads: offline.threads || resource.threads,
+  } : resource, [resource, isOffline]);
+
+  return { resource: displayedResource, status, retry };
 };
 
+const ReviewerPage: React.FC<ReviewerPageProps> = ({ resource: requestedResource, onClick }) => {
+  const { resource, status: revalidationStatus, retry: retryRevalidation } = useOfflineData(requestedResource);
+  const isOffline = revalidationStatus !== "done";
+  const deferredResource = useDeferredValue(resource, 1500);
+  const nextId = getNextId(resource.reviewers.read(), resource.id);
+  const [refreshedThreads, setRefreshedThreads] = React.useState<RefreshedThreads>(null);
+  const [optimisticComments, setOptimisticComments] = React.useState<CommentsVM[]>([]);
+  const [postError, setPostError] = React.useState<string>(null);
+  const [startTransition] = useTransition(3000);
+
+  // Once a comment is posted the comments are read again from the server, keeping the current list
+  // (and the optimistic comment) on screen until they arrive
+  const displayedResource: ReviewerResource = refreshedThreads && refreshedThreads.id === deferredResource.id
+    ? { ...deferredResource, threads: refreshedThreads.threads }
+    : deferredResource;
+
+  const handlePost = (text: string) => {
+    const reviewerId = resource.id;
+    const optimisticComment: CommentsVM = { id: -Date.now(), text, reviewerId };
+    const removeOptimisticComment = () =>
+      setOptimisticComments(comments => comments.filter(comment => comment !== optimisticComment));
+
+    setPostError(null);
+    setOptimisticComments(comments => [...comments, optimisticComment]);
+    return postComment(reviewerId, text).then(
+      () => {
+        startTransition(() => {
+          removeOptimisticComment();
+          setRefreshedThreads({ id: reviewerId, threads: getCommentThreadsResource(reviewerId) });
+        });
+        return true;
+      },
+      error => {
+        removeOptimisticComment();
+        setPostError(`Your comment could not be posted: ${error.message}`);
+        return false;
+      }
+    );
+  };
 
-const PullRequestResponses = (props: CommentsProps) => {
-  const responses = props.resource.responses.read();
   return (
     <>
-      <div> User response: </div>
-      <ul style={{ opacity: props.isStale ? 0.7 : 1 }}>
-        {responses.map(comment => (
-          <li key={comment.id}>{comment.text}</li>
-        ))}
-      </ul>
+      <PullRequestReviewer resource={resource} isStale={isOffline} />
+      {revalidationStatus === "pending" ? <p>Showing the data saved on your last visit, refreshing...</p> : null}
+      {revalidationStatus === "failed" ? <RefreshFailedMessage onRetry={retryRevalidation} /> : null}
+      <Button onClick={() => onClick(nextId)} label="reviewer" prefetchTo={getReviewerPath(nextId, TABS.REVIEWER_DETAILS)}>
+        Next Reviewer
+      </Button>
+      <ErrorBoundary
+        fallback={renderRetryMessage}
+        resetKeys={[deferredResource.id]}
+        onReset={displayedResource.threads.retry}
+      >
+        <React.Suspense fallback={<h2>Loading comments...</h2>}>
+          <CommentThreads
+            threads={displayedResource.threads}
+            isStale={isOffline || resource !== deferredResource}
+            pendingComments={optimisticComments.filter(comment => comment.reviewerId === displayedResource.id)}
+          />
+        </React.Suspense>
+      </ErrorBoundary>
+      <CommentComposer onSubmit={handlePost} error={postError} />
     </>
   );
-}
+};
 
-const PullRequestComments = (props: CommentsProps) => {
-  const comments = props.resource.comments.read();
-  return (
-    <ul style={{ opacity: props.isStale ? 0.7 : 1 }}>
-      {comments.map(comment => (
-        <li key={comment.id}>{comment.text}</li>
-      ))}
-    </ul>
-  );
-}
+const RefreshFailedMessage: React.FC<RefreshFailedMessageProps> = ({ onRetry }) => (
+  <div role="alert">
+    <p>Offline data, refresh failed</p>
+    <button onClick={onRetry}>Retry</button>
+  </div>
+);
 
 const PullRequestReviewer = (props: ReviewerProps) => {
   const reviewer = props.resource.reviewer.read();
-  return <h1>{`Reviewer: ${reviewer.name}`}</h1>;
+  return (
+    <h1 style={{ opacity: props.isStale ? 0.7 : 1 }}>
+      <Avatar name={reviewer.name} src={reviewer.avatarUrl} />
+      {`Reviewer: ${reviewer.name}`}
+    </h1>
+  );
 };
@@ -0,0 +1,59 @@
+import { within } from "@testing-library/react";
+import { updateEndpointLatency } from "../api";
+import { renderRoute, advanceTime, click } from "../testUtils";
+
+const getSection = (getByText: (text: string) => HTMLElement, heading: string) =>
+  within(getByText(heading).closest("section"));
+
+describe("RaceConditionPage", () => {
+  it("shows a failed request in both versions and retries it", async () => {
+    updateEndpointLatency("reviewer", { failureRate: 1 });
+    const { getAllByRole, getAllByText, queryAllByRole } = renderRoute("/raceCondition");
+    await advanceTime(3000);
+
+    const alerts = getAllByRole("alert");
+    expect(alerts).toHaveLength(2);
+    alerts.forEach(alert => expect(alert).toHaveTextContent('Mock request to "reviewer" failed'));
+
+    updateEndpointLatency("reviewer", { failureRate: 0 });
+    getAllByText("Retry").forEach(click);
+    await advanceTime(3000);
+
+    expect(queryAllByRole("alert")).toHaveLength(0);
+    expect(getAllByText("Reviewer: Marioli")).toHaveLength(2);
+  });
+
+  it("shows the comments of the previous reviewer next to the new one only in the first version", async () => {
+    const warn = jest.spyOn(console, "warn").mockImplementation(() => undefined);
+    updateEndpointLatency("reviewer", { delayMs: 100 });
+    updateEndpointLatency("commentsForReviewer", { delayMs: 2000 });
+    const { getByText } = renderRoute("/raceCondition");
+    const raceCondition = getSection(getByText, "With race condition");
+    const fixed = getSection(getByText, "Ignoring stale responses");
+    await advanceTime(50);
+
+    // Carlos arrives at 150 ms, while the comments of Marioli only arrive at 2000 ms
+    click(getByText("Next"));
+    await advanceTime(1950);
+
+    expect(raceCondition.getByText("Reviewer: Carlos")).toBeInTheDocument();
+    expect(raceCondition.getByText("What does it do?")).toBeInTheDocument();
+    expect(raceCondition.getByRole("alert")).toHaveTextContent(
+      "Inconsistent: showing reviewer for reviewer 5 next to comments for reviewer 3"
+    );
+    expect(fixed.getByText("Reviewer: Carlos")).toBeInTheDocument();
+    expect(fixed.getByText("Loading comments...")).toBeInTheDocument();
+    expect(fixed.queryByRole("alert")).not.toBeInTheDocument();
+
+    await advanceTime(100);
+
+    expect(raceCondition.queryByRole("alert")).not.toBeInTheDocument();
+    expect(raceCondition.getByText("Inconsistencies detected: 1")).toBeInTheDocument();
+    expect(raceCondition.getByText(/reviewer for reviewer 5 next to comments for reviewer 3$/)).toBeInTheDocument();
+    expect(fixed.getByText("Inconsistencies detected: 0")).toBeInTheDocument();
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      "Inconsistent reviewer details: showing reviewer for reviewer 5 next to comments for reviewer 3"
+    );
+  });
+});
@@ -1,18 +1,42 @@
 import * as React from "react";
-import { fetchReviewer, fetchCommentsForReviewer } from "../api";
-import { ReviewerVM, AsyncResource, CommentsVM } from "./model";
+import { fetchReviewer, fetchCommentsForReviewer, isAbortError } from "../api";
+import { ReviewerVM, CommentsVM } from "./model";
+import { RetryMessage } from "./errorBoundary";
+import { PreloadLink } from "../router";
+import { ConsistencyChecker, useConsistencyTag } from "../components";
 
 // Types
+interface ReviewerDetailsAppProps {
+  id: number;
+  // Ignore responses for ids that are no longer shown and abort their requests
+  cancelStale?: boolean;
+}
+
 interface ReviewerPageProps {
   id: number;
+  cancelStale: boolean;
 }
 
 interface ReviewerProps {
   id: number;
+  cancelStale: boolean;
 }
 
 interface CommentsProps {
   id: number;
+  cancelStale: boolean;
+}
+
+// The data together with the id it was fetched for, which may differ from the id being rendered
+interface Fetched<T> {
+  id: number;
+  data: T;
+}
+
+interface FetchForId<T> {
+  fetched: Fetched<T> | null;
+  error: any;
+  retry: () => void;
 }
 
 // App
@@ -20,18 +44,23 @@ const getNextId = (id: number) => {
   switch(id) {
     case 3:
       return 5;
-    case 5: 
+    case 5:
       return 7;
     default:
       return 3;
   }
 };
 
-export const ReviewerDetailsApp = () => {
+export const RaceConditionPage = () => {
   const [id, setId] = React.useState(3);
 
   return (
     <>
+      <p>
+        Both versions fetch in effects. Pick the "raceConditions" preset in the latency panel and click "Next"
+        quickly: responses arriving out of order make the first version show one reviewer next to the comments
+        of another.
+      </p>
       <button
         onClick={() => {
           const nextUserId = getNextId(id);
@@ -40,35 +69,95 @@ export const ReviewerDetailsApp = () => {
       >
         Next
       </button>
-      <ReviewerPage id={id} />
+      <div style={{ display: "flex", alignItems: "flex-start" }}>
+        <section style={{ flex: 1 }}>
+          <h2>With race condition</h2>
+          <ReviewerDetailsApp id={id} />
+        </section>
+        <section style={{ flex: 1 }}>
+          <h2>Ignoring stale responses</h2>
+          <ReviewerDetailsApp id={id} cancelStale />
+        </section>
+      </div>
+      <PreloadLink to="/">Back to home</PreloadLink>
     </>
   );
 };
 
+export const ReviewerDetailsApp: React.FC<ReviewerDetailsAppProps> = ({ id, cancelStale = false }) => (
+  <ConsistencyChecker name={cancelStale ? "reviewer details (fixed)" : "reviewer details"} entity="reviewer">
+    <ReviewerPage id={id} cancelStale={cancelStale} />
+  </ConsistencyChecker>
+);
+
 // Subpages and components
+const useFetchForId = <T extends {}>(
+  fetcher: (id: number, signal?: AbortSignal) => Promise<T>, id: number, cancelStale: boolean
+): FetchForId<T> => {
+  const [fetched, setFetched] = React.useState<Fetched<T>>(null);
+  const [error, setError] = React.useState(null);
+  // Bumped on retry, so the effect runs again
+  const [attempt, setAttempt] = React.useState(0);
+  React.useEffect(() => {
+    setError(null);
+    if (!cancelStale) {
+      fetcher(id).then(data => setFetched({ id, data }), setError);
+      return;
+    }
+    let ignore = false;
+    const controller = new AbortController();
+    fetcher(id, controller.signal).then(
+      data => {
+        if (!ignore) {
+          setFetched({ id, data });
+        }
+      },
+      error => {
+        // Aborting the request of an id that is no longer shown is not a failure
+        if (!ignore && !isAbortError(error)) {
+          setError(error);
+        }
+      }
+    );
+    return () => {
+      ignore = true;
+      controller.abort();
+    };
+  }, [id, cancelStale, attempt]);
+  return {
+    // Until the data for the new id arrives, the data for the previous one counts as not loaded
+    fetched: cancelStale && fetched && fetched.id !== id ? null : fetched,
+    error,
+    retry: () => setAttempt(current => current + 1),
+  };
+};
+
 const ReviewerPage = (props: ReviewerPageProps) => {
-  const { id } = props;
+  const { id, cancelStale } = props;
 
   return (
     <>
-      <PullRequestReviewer id={id} />
-      <PullRequestComments id={id} />
+      <PullRequestReviewer id={id} cancelStale={cancelStale} />
+      <PullRequestComments id={id} cancelStale={cancelStale} />
     </>
   );
 }
 
-const PullRequestComments = (props: CommentsProps) => { 
-  const [comments, setComments] = React.useState<CommentsVM[]>(null);
-  React.useEffect(() => {
-    fetchCommentsForReviewer(props.id).then(comments => setComments(comments));
-  }, [props.id]);
+const PullRequestComments = (props: CommentsProps) => {
+  const { fetched: comments, error, retry } = useFetchForId<CommentsVM[]>(
+    fetchCommentsForReviewer, props.id, props.cancelStale
+  );
+  useConsistencyTag("comments", comments && comments.id);
 
+  if (error) {
+    return <RetryMessage error={error} onRetry={retry} />;
+  }
   if (comments === null) {
     return <h2>Loading comments...</h2>;
   }
   return (
-    <ul>
-      {comments.map(comment => (
+    <ul data-reviewer-id={comments.id}>
+      {comments.data.map(comment => (
         <li key={comment.id}>{comment.text}</li>
       ))}
     </ul>
@@ -76,13 +165,14 @@ const PullRequestComments = (props: CommentsProps) => {
 }
 
 const PullRequestReviewer = (props: ReviewerProps) => {
-  const [reviewer, setReviewer] = React.useState<ReviewerVM>(null);
-  React.useEffect(() => {
-    fetchReviewer(props.id).then(reviewer => setReviewer(reviewer));
-  }, [props.id]);
+  const { fetched: reviewer, error, retry } = useFetchForId<ReviewerVM>(fetchReviewer, props.id, props.cancelStale);
+  useConsistencyTag("reviewer", reviewer && reviewer.id);
 
+  if (error) {
+    return <RetryMessage error={error} onRetry={retry} />;
+  }
   if (reviewer === null) {
     return <p>Loading reviewer...</p>;
   }
-  return <h1>{`Reviewer: ${reviewer.name}`}</h1>;
+  return <h1 data-reviewer-id={reviewer.id}>{`Reviewer: ${reviewer.data.name}`}</h1>;
 };
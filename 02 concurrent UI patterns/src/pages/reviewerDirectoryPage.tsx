@@ -0,0 +1,113 @@
+import * as React from "react";
+import { getCodeReviewersPageResource, ReviewerQuery, ReviewerSort, Page } from "../api";
+import { ReviewerVM, AsyncResource } from "./model";
+import { ErrorBoundary, renderRetryMessage } from "./errorBoundary";
+import { Button, TransitionLink } from "../components";
+import { useDeferredValue } from "../hooks";
+import { PreloadLink, PreloadedPageProps } from "../router";
+
+// Types
+type DirectoryResource = AsyncResource<Page<ReviewerVM>>;
+
+interface ReviewerListProps {
+  resource: DirectoryResource;
+  query: string;
+  isStale: boolean;
+}
+
+interface PaginationProps {
+  resource: DirectoryResource;
+  onPageChange: (page: number) => void;
+}
+
+// Page
+const INITIAL_QUERY: ReviewerQuery = { query: "", page: 1, sort: "name" };
+
+const SORT_LABELS: Record<ReviewerSort, string> = {
+  "name": "Name (A-Z)",
+  "-name": "Name (Z-A)",
+  "id": "Id (ascending)",
+  "-id": "Id (descending)",
+};
+
+export const preloadReviewerDirectoryPage = (): DirectoryResource => getCodeReviewersPageResource(INITIAL_QUERY);
+
+export const ReviewerDirectoryPage: React.FC<PreloadedPageProps<DirectoryResource>> = ({ resources }) => {
+  const [query, setQuery] = React.useState<ReviewerQuery>(INITIAL_QUERY);
+  const [resource, setResource] = React.useState<DirectoryResource>(resources);
+  // The input is updated right away, while the results keep showing the previous (dimmed) list
+  // until the new page of reviewers has been fetched
+  const deferredResource = useDeferredValue(resource, 3000);
+
+  const search = (changes: ReviewerQuery) => {
+    const nextQuery = { ...query, ...changes };
+    setQuery(nextQuery);
+    setResource(getCodeReviewersPageResource(nextQuery));
+  };
+
+  return (
+    <>
+      <h1>Reviewer directory</h1>
+      <input
+        placeholder="Search reviewers"
+        value={query.query}
+        onChange={e => search({ query: e.target.value, page: 1 })}
+      />
+      <select
+        value={query.sort}
+        onChange={e => search({ sort: e.target.value as ReviewerSort, page: 1 })}
+      >
+        {(Object.keys(SORT_LABELS) as ReviewerSort[]).map(sort => (
+          <option key={sort} value={sort}>{SORT_LABELS[sort]}</option>
+        ))}
+      </select>
+      <ErrorBoundary
+        fallback={renderRetryMessage}
+        resetKeys={[deferredResource]}
+        onReset={deferredResource.retry}
+      >
+        <React.Suspense fallback={<h2>Loading reviewers...</h2>}>
+          <Pagination resource={deferredResource} onPageChange={page => search({ page })} />
+          <ReviewerList
+            resource={deferredResource}
+            query={query.query}
+            isStale={resource !== deferredResource}
+          />
+        </React.Suspense>
+      </ErrorBoundary>
+      <PreloadLink to="/">Back to home</PreloadLink>
+    </>
+  );
+};
+
+// Components
+const Pagination: React.FC<PaginationProps> = ({ resource, onPageChange }) => {
+  const { page, pageSize, total } = resource.read();
+  const pageCount = Math.max(1, Math.ceil(total / pageSize));
+  return (
+    <p>
+      {page > 1 ? <Button onClick={() => onPageChange(page - 1)}>Previous</Button> : null}
+      {` Page ${page} of ${pageCount} (${total} reviewers) `}
+      {page < pageCount ? <Button onClick={() => onPageChange(page + 1)}>Next</Button> : null}
+    </p>
+  );
+};
+
+const ReviewerList: React.FC<ReviewerListProps> = ({ resource, query, isStale }) => {
+  const { items } = resource.read();
+  if (items.length === 0) {
+    return <p>{`No reviewers match "${query}"`}</p>;
+  }
+  return (
+    <ul style={{ opacity: isStale ? 0.7 : 1 }}>
+      {items.map(reviewer => (
+        <li key={reviewer.id}>
+          <TransitionLink to={`/reviewers/${reviewer.id}/comments`} pendingContent=" Opening..." spinnerDelayMs={200}>
+            {reviewer.name}
+          </TransitionLink>
+          {` #${reviewer.id}`}
+        </li>
+      ))}
+    </ul>
+  );
+};
@@ -1,6 +1,7 @@
 import * as React from "react";
 import { Link } from "react-router-dom";
-import { fetchComments, fetchCodeReviewers } from "../api";
+import { fetchComments, fetchCodeReviewers, tracePromise } from "../api";
+import { TracedFallback } from "../components";
 
 interface ReviewerVM {
   name: string;
@@ -25,7 +26,7 @@ interface PRCommentsProps {
 const PullRequestComments = (props: PRCommentsProps) => {
   const { comments } = props;
   if (comments === null) {
-    return <h2>Loading comments...</h2>;
+    return <TracedFallback name="comments"><h2>Loading comments...</h2></TracedFallback>;
   }
   return (
     <ul>
@@ -39,7 +40,7 @@ const PullRequestComments = (props: PRCommentsProps) => {
 const PullRequestReviewers = (props: PRRevierwersProps) => {
   const { reviewers, comments } = props;
   if (reviewers === null) {
-    return <p>Loading reviewers...</p>;
+    return <TracedFallback name="reviewers"><p>Loading reviewers...</p></TracedFallback>;
   }
   return (
     <ul>
@@ -56,7 +57,8 @@ export const SecondaryPage = () => {
   const [reviewers, setReviewers] = React.useState<ReviewerVM[]>(null);
 
   React.useEffect(() => {
-    Promise.all([fetchCodeReviewers(), fetchComments()])
+    // Fetching only starts once the page has rendered, unlike the preloaded DetailsPage
+    Promise.all([tracePromise("reviewers", fetchCodeReviewers()), tracePromise("comments", fetchComments())])
       .then(([r, c]) => ({reviewers: r, comments: c})) // Note the similarity with fetchCodeReviewData
       .then((data) => {
         setReviewers(data.reviewers);
@@ -0,0 +1,43 @@
+import { updateEndpointLatency } from "../api";
+import { renderRoute, advanceTime } from "../testUtils";
+
+describe("SuspenseListApp", () => {
+  it("reveals the rows in order, showing only the next fallback", async () => {
+    const { queryByText, getByText } = renderRoute("/suspenseList");
+
+    expect(getByText("Loading...")).toBeInTheDocument();
+
+    // The reviewer arrives after 300 ms, but React waits 500 ms after showing a fallback before
+    // revealing the next row
+    await advanceTime(500);
+
+    expect(getByText("Reviewer: Marioli")).toBeInTheDocument();
+    expect(getByText("Loading comments...")).toBeInTheDocument();
+    expect(queryByText("Loading responses...")).not.toBeInTheDocument();
+
+    await advanceTime(500);
+
+    expect(getByText("What does it do?")).toBeInTheDocument();
+    expect(getByText("Loading responses...")).toBeInTheDocument();
+
+    await advanceTime(500);
+
+    expect(getByText("WAT")).toBeInTheDocument();
+    expect(queryByText("Loading responses...")).not.toBeInTheDocument();
+  });
+
+  it("holds back rows that arrive before the ones above them", async () => {
+    updateEndpointLatency("responsesToReviewer", { delayMs: 400 });
+    const { queryByText, getByText } = renderRoute("/suspenseList");
+
+    await advanceTime(500);
+
+    expect(getByText("Loading comments...")).toBeInTheDocument();
+    expect(queryByText("WAT")).not.toBeInTheDocument();
+
+    await advanceTime(500);
+
+    expect(getByText("What does it do?")).toBeInTheDocument();
+    expect(getByText("WAT")).toBeInTheDocument();
+  });
+});
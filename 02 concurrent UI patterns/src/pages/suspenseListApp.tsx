@@ -1,8 +1,10 @@
 import * as React from "react";
-//@ts-ignore
 import { SuspenseList } from "react";
 import { fetchCodeReviewerData } from "../api";
 import { ReviewerVM, AsyncResource, CommentsVM } from "./model";
+import { ErrorBoundary, renderRetryMessage } from "./errorBoundary";
+import { PreloadedPageProps } from "../router";
+import { Avatar } from "../components";
 
 // Types
 interface ReviewerResource {
@@ -23,14 +25,15 @@ interface CommentsProps {
   resource: ReviewerResource;
 }
 
+export const preloadSuspenseListApp = (): ReviewerResource => fetchCodeReviewerData(3);
 
-const initialResource = fetchCodeReviewerData(3);
-
-export const SuspenseListApp = () => {
+export const SuspenseListApp: React.FC<PreloadedPageProps<ReviewerResource>> = ({ resources }) => {
   return (
-    <React.Suspense fallback={<h1>Loading...</h1>}>
-      <ReviewerPage resource={initialResource} />
-    </React.Suspense>
+    <ErrorBoundary fallback={renderRetryMessage} onReset={resources.reviewer.retry}>
+      <React.Suspense fallback={<h1>Loading...</h1>}>
+        <ReviewerPage resource={resources} />
+      </React.Suspense>
+    </ErrorBoundary>
   );
 }
 
@@ -38,12 +41,16 @@ const ReviewerPage: React.FC<ReviewerPageProps> = ({ resource }) => {
   return (
     <SuspenseList revealOrder="forwards" tail="collapsed">
       <PullRequestReviewer resource={resource} />
-      <React.Suspense fallback={<h2>Loading comments...</h2>}>
-        <PullRequestComments resource={resource} />
-      </React.Suspense>
-      <React.Suspense fallback={<h2>Loading responses... </h2>}>
-        <PullRequestResponses resource={resource} />
-      </React.Suspense>
+      <ErrorBoundary fallback={renderRetryMessage} onReset={resource.comments.retry}>
+        <React.Suspense fallback={<h2>Loading comments...</h2>}>
+          <PullRequestComments resource={resource} />
+        </React.Suspense>
+      </ErrorBoundary>
+      <ErrorBoundary fallback={renderRetryMessage} onReset={resource.responses.retry}>
+        <React.Suspense fallback={<h2>Loading responses... </h2>}>
+          <PullRequestResponses resource={resource} />
+        </React.Suspense>
+      </ErrorBoundary>
     </SuspenseList>
   );
 };
@@ -75,7 +82,12 @@ const PullRequestComments = (props: CommentsProps) => {
 
 const PullRequestReviewer = (props: ReviewerProps) => {
   const reviewer = props.resource.reviewer.read();
-  return <h1>{`Reviewer: ${reviewer.name}`}</h1>;
+  return (
+    <h1>
+      <Avatar name={reviewer.name} src={reviewer.avatarUrl} />
+      {`Reviewer: ${reviewer.name}`}
+    </h1>
+  );
 };
 
 
@@ -0,0 +1,6 @@
+export { RouteDefinition, RouteParams, createPreloader, Preloader, PreloaderOptions } from "./preloader";
+export { PreloadRoutes, PreloadedPageProps, PreloaderContext } from "./preloadRouter";
+export { PreloadLink } from "./preloadLink";
+export {
+  createIntentPrefetcher, IntentPrefetcher, IntentPrefetcherOptions, IntentPrefetcherContext, usePrefetchOnIntent,
+} from "./intentPrefetcher";
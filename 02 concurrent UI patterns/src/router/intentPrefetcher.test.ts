@@ -0,0 +1,83 @@
+import { createPreloader } from "./preloader";
+import { createIntentPrefetcher } from "./intentPrefetcher";
+import { wrapPromise, createResolvedResource } from "../api/wrapPromise";
+import { flushPromises } from "../testUtils";
+
+const createRoutes = () => {
+  const requests = new Map<string, () => void>();
+  const preload = jest.fn(({ id }) => ({
+    id,
+    reviewer: wrapPromise(new Promise<string>(resolve => requests.set(id, () => resolve(id)))),
+  }));
+  const routes = [
+    { path: "/reviewers/:id", component: () => null, preload },
+    { path: "/cached", component: () => null, preload: () => createResolvedResource("cached") },
+    { path: "/", exact: true, component: () => null },
+  ];
+  return { routes, preload, resolve: (id: string) => requests.get(id)() };
+};
+
+describe("createIntentPrefetcher", () => {
+  it("preloads the page at the url once", () => {
+    const { routes, preload } = createRoutes();
+    const prefetcher = createIntentPrefetcher(createPreloader(routes));
+
+    expect(prefetcher.prefetch("/reviewers/3")).toBe(true);
+    expect(prefetcher.prefetch("/reviewers/3")).toBe(true);
+
+    expect(preload).toHaveBeenCalledTimes(1);
+    expect(prefetcher.getInFlightCount()).toBe(1);
+  });
+
+  it("ignores urls without anything to preload", () => {
+    const { routes } = createRoutes();
+    const prefetcher = createIntentPrefetcher(createPreloader(routes));
+
+    expect(prefetcher.prefetch("/")).toBe(false);
+    expect(prefetcher.prefetch("/unknown")).toBe(false);
+  });
+
+  it("does not prefetch more pages at once than its budget", async () => {
+    const { routes, preload, resolve } = createRoutes();
+    const prefetcher = createIntentPrefetcher(createPreloader(routes), { maxConcurrent: 2 });
+
+    prefetcher.prefetch("/reviewers/3");
+    prefetcher.prefetch("/reviewers/5");
+    expect(prefetcher.prefetch("/reviewers/7")).toBe(false);
+    expect(preload).toHaveBeenCalledTimes(2);
+
+    resolve("3");
+    await flushPromises();
+
+    expect(prefetcher.prefetch("/reviewers/7")).toBe(true);
+    expect(preload).toHaveBeenCalledTimes(3);
+  });
+
+  it("frees the slot of a page that takes too long to load", async () => {
+    const { routes, preload, resolve } = createRoutes();
+    const prefetcher = createIntentPrefetcher(createPreloader(routes), { maxConcurrent: 1, slotTimeoutMs: 1000 });
+
+    prefetcher.prefetch("/reviewers/3");
+    expect(prefetcher.prefetch("/reviewers/5")).toBe(false);
+
+    jest.advanceTimersByTime(1000);
+
+    expect(prefetcher.prefetch("/reviewers/5")).toBe(true);
+    expect(preload).toHaveBeenCalledTimes(2);
+
+    // The slow page arriving after all leaves the slot of the next one alone
+    resolve("3");
+    await flushPromises();
+    expect(prefetcher.getInFlightCount()).toBe(1);
+  });
+
+  it("does not spend the budget on pages that are already loaded", () => {
+    const { routes } = createRoutes();
+    const prefetcher = createIntentPrefetcher(createPreloader(routes), { maxConcurrent: 1 });
+
+    prefetcher.prefetch("/cached");
+
+    expect(prefetcher.getInFlightCount()).toBe(0);
+    expect(prefetcher.prefetch("/reviewers/3")).toBe(true);
+  });
+});
@@ -0,0 +1,95 @@
+import * as React from "react";
+import { getNestedResources } from "../api";
+import { Preloader } from "./preloader";
+
+export interface IntentPrefetcherOptions {
+  // How long the pointer has to rest on a link or button before its page is prefetched
+  hoverDelayMs?: number;
+  // Pages prefetched at the same time; intents beyond that are ignored until one of them has loaded
+  maxConcurrent?: number;
+  // A page still loading after this long gives up its slot, so requests that hang do not spend the budget for good
+  slotTimeoutMs?: number;
+}
+
+// Preloads pages the user is about to open, within a budget so that sweeping the pointer over a list
+// of links does not fire a request for every one of them
+export const createIntentPrefetcher = (preloader: Preloader, options: IntentPrefetcherOptions = {}) => {
+  const { hoverDelayMs = 150, maxConcurrent = 2, slotTimeoutMs = 5000 } = options;
+  // The slot taken by each url, so that a slot released by its timeout is not released again later on
+  const inFlight = new Map<string, {}>();
+
+  return {
+    hoverDelayMs,
+    // False when the budget is spent or there is nothing to preload at that url
+    prefetch(pathname: string): boolean {
+      const routeMatch = preloader.matchRoute(pathname);
+      if (!routeMatch || !routeMatch.route.preload) {
+        return false;
+      }
+      const { url } = routeMatch.match;
+      if (inFlight.has(url)) {
+        return true;
+      }
+      if (inFlight.size >= maxConcurrent) {
+        return false;
+      }
+
+      const pending = getNestedResources(preloader.preload(url)).filter(resource => resource.getStatus() === "pending");
+      if (pending.length > 0) {
+        const slot = {};
+        inFlight.set(url, slot);
+        const release = () => {
+          window.clearTimeout(timeoutId);
+          if (inFlight.get(url) === slot) {
+            inFlight.delete(url);
+          }
+        };
+        const timeoutId = window.setTimeout(release, slotTimeoutMs);
+        Promise.all(pending.map(resource => resource.toPromise())).then(release, release);
+      }
+      return true;
+    },
+    getInFlightCount() {
+      return inFlight.size;
+    },
+  };
+};
+
+export type IntentPrefetcher = ReturnType<typeof createIntentPrefetcher>;
+
+export const IntentPrefetcherContext = React.createContext<IntentPrefetcher>(null);
+
+export interface IntentHandlers {
+  onMouseEnter: () => void;
+  onMouseLeave: () => void;
+  onFocus: () => void;
+}
+
+const ignoreIntent = () => undefined;
+
+const NO_INTENT: IntentHandlers = { onMouseEnter: ignoreIntent, onMouseLeave: ignoreIntent, onFocus: ignoreIntent };
+
+// Event handlers that prefetch the page at the url once the user hovers the element for a moment, or
+// focuses it with the keyboard. Without a url or a prefetcher there is nothing to handle
+export const usePrefetchOnIntent = (to?: string): IntentHandlers => {
+  const prefetcher = React.useContext(IntentPrefetcherContext);
+  const timeoutRef = React.useRef<number>(null);
+
+  const cancel = () => window.clearTimeout(timeoutRef.current);
+  React.useEffect(() => cancel, []);
+
+  if (!prefetcher || !to) {
+    return NO_INTENT;
+  }
+  return {
+    onMouseEnter: () => {
+      cancel();
+      timeoutRef.current = window.setTimeout(() => prefetcher.prefetch(to), prefetcher.hoverDelayMs);
+    },
+    onMouseLeave: cancel,
+    onFocus: () => {
+      cancel();
+      prefetcher.prefetch(to);
+    },
+  };
+};
@@ -0,0 +1,26 @@
+import * as React from "react";
+import { Link, LinkProps } from "react-router-dom";
+import { PreloaderContext } from "./preloadRouter";
+import { usePrefetchOnIntent } from "./intentPrefetcher";
+
+interface PreloadLinkProps extends LinkProps {
+  to: string;
+}
+
+// Prefetches on intent, within the budget of the intent prefetcher, and preloads right away once clicked
+export const PreloadLink: React.FC<PreloadLinkProps> = ({ to, onMouseEnter, onMouseLeave, onFocus, onClick, ...props }) => {
+  const preloader = React.useContext(PreloaderContext);
+  const intent = usePrefetchOnIntent(to);
+  const preload = () => preloader && preloader.preload(to);
+
+  return (
+    <Link
+      {...props}
+      to={to}
+      onMouseEnter={e => { intent.onMouseEnter(); if (onMouseEnter) onMouseEnter(e); }}
+      onMouseLeave={e => { intent.onMouseLeave(); if (onMouseLeave) onMouseLeave(e); }}
+      onFocus={e => { intent.onFocus(); if (onFocus) onFocus(e); }}
+      onClick={e => { preload(); if (onClick) onClick(e); }}
+    />
+  );
+};
@@ -0,0 +1,69 @@
+import * as React from "react";
+import { Switch, Route, RouteComponentProps } from "react-router-dom";
+import { RouteDefinition, Preloader } from "./preloader";
+import { createIntentPrefetcher, IntentPrefetcherContext, IntentPrefetcherOptions } from "./intentPrefetcher";
+import { setTimelinePage } from "../api";
+import { useIsomorphicLayoutEffect } from "../hooks";
+
+export interface PreloadedPageProps<R> extends RouteComponentProps<any> {
+  resources: R;
+}
+
+interface PreloadRoutesProps {
+  routes: RouteDefinition[];
+  preloader: Preloader;
+  // Hover delay and budget of the pages links and buttons prefetch
+  prefetch?: IntentPrefetcherOptions;
+}
+
+interface PreloadedRouteProps extends RouteComponentProps<any> {
+  route: RouteDefinition;
+  preloader: Preloader;
+}
+
+export const PreloaderContext = React.createContext<Preloader>(null);
+
+export const PreloadRoutes: React.FC<PreloadRoutesProps> = ({ routes, preloader, prefetch }) => {
+  const prefetcher = React.useMemo(() => createIntentPrefetcher(preloader, prefetch), [preloader]);
+
+  return (
+    <PreloaderContext.Provider value={preloader}>
+      <IntentPrefetcherContext.Provider value={prefetcher}>
+        <Switch>
+          {routes.map(route => (
+            <Route
+              key={route.path}
+              exact={route.exact}
+              path={route.path}
+              render={routeProps => <PreloadedRoute {...routeProps} route={route} preloader={preloader} />}
+            />
+          ))}
+        </Switch>
+      </IntentPrefetcherContext.Provider>
+    </PreloaderContext.Provider>
+  );
+};
+
+const PreloadedRoute: React.FC<PreloadedRouteProps> = ({ route, preloader, ...routeProps }) => {
+  const { url } = routeProps.match;
+  // Links have usually started the preload on hover or click; direct visits start it here
+  const [entry, setEntry] = React.useState(() => ({ url, resources: preloader.preload(url) }));
+  let current = entry;
+  if (entry.url !== url) {
+    current = { url, resources: preloader.preload(url) };
+    setEntry(current);
+  }
+
+  // Whatever the page fetches from now on shows up under its url in the fetch timeline. Set once the
+  // page is on screen, so a transition that is still suspended or gets abandoned does not claim it
+  useIsomorphicLayoutEffect(() => {
+    setTimelinePage(url);
+  }, [url]);
+
+  React.useEffect(() => {
+    preloader.forget(url);
+  }, [url]);
+
+  const Page = route.component;
+  return <Page {...routeProps} resources={current.resources} />;
+};
@@ -0,0 +1,32 @@
+import { createPreloader } from "./preloader";
+
+const createRoutes = () => {
+  const preload = jest.fn(({ id }) => ({ id }));
+  const routes = [{ path: "/reviewers/:id", component: () => null, preload }];
+  return { routes, preload };
+};
+
+describe("createPreloader", () => {
+  it("hands out the same resources until the page takes them", () => {
+    const { routes, preload } = createRoutes();
+    const preloader = createPreloader(routes);
+
+    const resources = preloader.preload("/reviewers/3");
+
+    expect(preloader.preload("/reviewers/3")).toBe(resources);
+    preloader.forget("/reviewers/3");
+    expect(preloader.preload("/reviewers/3")).not.toBe(resources);
+    expect(preload).toHaveBeenCalledTimes(2);
+  });
+
+  it("preloads again once the resources have waited too long for their page", () => {
+    const { routes, preload } = createRoutes();
+    const preloader = createPreloader(routes, { maxAgeMs: 1000 });
+
+    const resources = preloader.preload("/reviewers/3");
+    jest.spyOn(Date, "now").mockReturnValue(Date.now() + 1000);
+
+    expect(preloader.preload("/reviewers/3")).not.toBe(resources);
+    expect(preload).toHaveBeenCalledTimes(2);
+  });
+});
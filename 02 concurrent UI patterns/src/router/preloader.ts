@@ -0,0 +1,83 @@
+import * as React from "react";
+import { matchPath, match } from "react-router-dom";
+import { withTimelinePage } from "../api";
+
+export type RouteParams = { [param: string]: string };
+
+export interface RouteDefinition<R = any> {
+  path: string;
+  exact?: boolean;
+  component: React.ComponentType<any>;
+  // Starts fetching everything the page needs; the page receives the returned resources as props
+  preload?: (params: RouteParams) => R;
+}
+
+export interface RouteMatch {
+  route: RouteDefinition;
+  match: match<RouteParams>;
+}
+
+export interface PreloaderOptions {
+  // How long preloaded resources wait for their page. A page opened later on preloads again, so it
+  // goes through the resource cache and its expiry instead of rendering whatever was fetched back then
+  maxAgeMs?: number;
+}
+
+interface PreloadedEntry {
+  resources: any;
+  preloadedAt: number;
+}
+
+export const createPreloader = (routes: RouteDefinition[], options: PreloaderOptions = {}) => {
+  const { maxAgeMs = 10000 } = options;
+  // Resources started ahead of navigation, waiting for their page to render and pick them up
+  const preloaded = new Map<string, PreloadedEntry>();
+
+  // Pages hovered but never opened are dropped here, so they do not pile up
+  const dropExpired = () => {
+    const now = Date.now();
+    preloaded.forEach((entry, url) => {
+      if (entry.preloadedAt + maxAgeMs <= now) {
+        preloaded.delete(url);
+      }
+    });
+  };
+
+  const matchRoute = (pathname: string): RouteMatch | null => {
+    for (const route of routes) {
+      const match = matchPath<RouteParams>(pathname, { path: route.path, exact: route.exact });
+      if (match) {
+        return { route, match };
+      }
+    }
+    return null;
+  };
+
+  const preload = (pathname: string) => {
+    const routeMatch = matchRoute(pathname);
+    if (!routeMatch || !routeMatch.route.preload) {
+      return undefined;
+    }
+    const { route, match } = routeMatch;
+    dropExpired();
+    if (!preloaded.has(match.url)) {
+      const resources = withTimelinePage(match.url, () => route.preload(match.params));
+      preloaded.set(match.url, { resources, preloadedAt: Date.now() });
+    }
+    return preloaded.get(match.url).resources;
+  };
+
+  return {
+    matchRoute,
+    preload,
+    // Once a page has taken its resources, visiting it again starts a fresh preload
+    forget(pathname: string) {
+      const routeMatch = matchRoute(pathname);
+      if (routeMatch) {
+        preloaded.delete(routeMatch.match.url);
+      }
+    },
+  };
+};
+
+export type Preloader = ReturnType<typeof createPreloader>;
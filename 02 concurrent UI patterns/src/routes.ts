@@ -0,0 +1,29 @@
+import { RouteDefinition } from "./router";
+import { MainPage } from "./pages/mainPage";
+import { SecondaryPage } from "./pages/secondaryPage";
+import { DetailsPage, DetailsRedirect, preloadDetailsPage } from "./pages/detailsPage";
+import { PullRequestsPage, preloadPullRequestsPage } from "./pages/pullRequestsPage";
+import { DiffPage, preloadDiffPage } from "./pages/diffPage";
+import { ReviewerDetailsApp, ReviewerDetailsRedirect, preloadReviewerDetailsApp } from "./pages/reviewerDetailsApp";
+import { CalculatorPage, Add3Redirect, preloadCalculatorPage } from "./pages/calculatorPage";
+import { ReviewerDirectoryPage, preloadReviewerDirectoryPage } from "./pages/reviewerDirectoryPage";
+import { SuspenseListApp, preloadSuspenseListApp } from "./pages/suspenseListApp";
+import { ComparePage, preloadComparePage } from "./pages/comparePage";
+import { RaceConditionPage } from "./pages/reviewerDetailsAppWithRaceCondition";
+
+export const ROUTES: RouteDefinition[] = [
+  { path: "/", exact: true, component: MainPage },
+  { path: "/details", component: DetailsRedirect },
+  { path: "/secondary", component: SecondaryPage },
+  { path: "/pulls", exact: true, component: PullRequestsPage, preload: preloadPullRequestsPage },
+  { path: "/pulls/:id/files", component: DiffPage, preload: preloadDiffPage },
+  { path: "/pulls/:id", component: DetailsPage, preload: preloadDetailsPage },
+  { path: "/reviewerDetails", component: ReviewerDetailsRedirect },
+  { path: "/reviewers/:id/:tab(comments)?", exact: true, component: ReviewerDetailsApp, preload: preloadReviewerDetailsApp },
+  { path: "/directory", component: ReviewerDirectoryPage, preload: preloadReviewerDirectoryPage },
+  { path: "/add", component: Add3Redirect },
+  { path: "/calculator", component: CalculatorPage, preload: preloadCalculatorPage },
+  { path: "/suspenseList", component: SuspenseListApp, preload: preloadSuspenseListApp },
+  { path: "/compare", component: ComparePage, preload: preloadComparePage },
+  { path: "/raceCondition", component: RaceConditionPage },
+];
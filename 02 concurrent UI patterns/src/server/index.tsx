@@ -0,0 +1,50 @@
+import * as fs from "fs";
+import * as http from "http";
+import * as path from "path";
+import { streamPage, splitTemplate } from "./streamPage";
+
+// The server bundle is built next to the client one, whose index.html is the page template
+const DIST_PATH = __dirname;
+const PORT = Number(process.env.PORT) || 3000;
+
+const CONTENT_TYPES: Record<string, string> = {
+  ".js": "application/javascript",
+  ".css": "text/css",
+  ".map": "application/json",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+};
+
+// Every request of a page is cancellable, so rendering one needs the AbortController Node only has since 15
+if (typeof AbortController === "undefined") {
+  throw new Error(`Server rendering needs Node 15 or later, this is Node ${process.versions.node}`);
+}
+
+const template = splitTemplate(fs.readFileSync(path.join(DIST_PATH, "index.html"), "utf8"));
+
+// Only the client bundle and its assets are served as files; server.js stays private
+const getStaticFilePath = (pathname: string) => {
+  const filePath = path.join(DIST_PATH, path.normalize(pathname));
+  const isAsset = filePath.startsWith(DIST_PATH) && path.extname(filePath) in CONTENT_TYPES;
+  return isAsset && path.basename(filePath) !== "server.js" && fs.existsSync(filePath) ? filePath : null;
+};
+
+const server = http.createServer((request, response) => {
+  const { pathname } = new URL(request.url, `http://${request.headers.host}`);
+
+  const staticFilePath = getStaticFilePath(pathname);
+  if (staticFilePath) {
+    response.writeHead(200, { "Content-Type": CONTENT_TYPES[path.extname(staticFilePath)] });
+    fs.createReadStream(staticFilePath).pipe(response);
+    return;
+  }
+
+  streamPage(pathname, template, response).catch(error => {
+    console.error(`Streaming ${pathname} failed`, error);
+    response.end();
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Server rendering on http://localhost:${PORT}`);
+});
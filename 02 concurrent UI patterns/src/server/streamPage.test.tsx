@@ -0,0 +1,81 @@
+import { PassThrough } from "stream";
+import { streamPage, splitTemplate, PageResponse } from "./streamPage";
+import {
+  resourceCache, mockDataSource, fetchCodeReviewerData, hydrateServerRenderedData, ServerRenderedData,
+} from "../api";
+
+const template = splitTemplate(`<html><body><div id="root"></div><script src="/bundle.js"></script></body></html>`);
+
+const flushPromises = () => new Promise(resolve => jest.requireActual("timers").setImmediate(resolve));
+
+// Collects what the page streams, and runs the mock backend until the response has ended
+const streamToChunks = async (url: string) => {
+  const chunks: string[] = [];
+  const stream = new PassThrough({ encoding: "utf8" });
+  stream.on("data", (chunk: string) => chunks.push(chunk));
+  const response: PageResponse = Object.assign(stream, { writeHead: jest.fn() });
+
+  const streaming = streamPage(url, template, response);
+  while (!stream.writableEnded) {
+    jest.runOnlyPendingTimers();
+    await flushPromises();
+  }
+  await streaming;
+  return chunks;
+};
+
+describe("streamPage", () => {
+  it("streams the fallbacks first and a new render whenever data arrives", async () => {
+    const chunks = await streamToChunks("/reviewers/3/comments");
+    const updates = chunks.filter(chunk => chunk.startsWith("<template"));
+
+    expect(chunks[0]).toBe(template.beforeRoot);
+    expect(chunks[1]).toContain("Loading Reviewer Details App...");
+    expect(updates.length).toBeGreaterThan(1);
+    expect(updates[updates.length - 1]).toContain("Reviewer: Marioli");
+    expect(updates[updates.length - 1]).toContain("What does it do?");
+    expect(updates[updates.length - 1]).not.toContain("Loading replies...");
+  });
+
+  it("leaves the dev panels to the client, so only the page itself is streamed again", async () => {
+    const chunks = await streamToChunks("/reviewers/3/comments");
+    const markup = chunks.join("");
+
+    expect(markup).not.toContain("Mock backend latency");
+    expect(markup).not.toContain("Fetch timeline");
+    expect(new Set(chunks).size).toBe(chunks.length);
+  });
+
+  it("ends with the data the page was rendered with, ahead of the client bundle", async () => {
+    const chunks = await streamToChunks("/reviewers/3/comments");
+    const lastChunk = chunks[chunks.length - 1];
+
+    expect(lastChunk).toMatch(/^<script>window.__SERVER_RENDERED_DATA__ = \{"rendered":true,/);
+    expect(lastChunk).toContain(`"reviewer/3":{"$resource":"success","value":{"name":"Marioli"`);
+    expect(lastChunk.endsWith(template.afterRoot)).toBe(true);
+  });
+
+  it("hands the data over so hydrating the page does not fetch it again", async () => {
+    const chunks = await streamToChunks("/reviewers/3/comments");
+    const [, json] = chunks[chunks.length - 1].match(/window.__SERVER_RENDERED_DATA__ = (.*?);<\/script>/);
+    const data: ServerRenderedData = JSON.parse(json);
+    const fetchReviewer = jest.spyOn(mockDataSource, "fetchReviewer");
+
+    hydrateServerRenderedData(data);
+    const { reviewer } = fetchCodeReviewerData(3);
+
+    expect(reviewer.read().name).toBe("Marioli");
+    expect(fetchReviewer).not.toHaveBeenCalled();
+  });
+
+  it("renders every request with caches of its own, so pages can be streamed at the same time", async () => {
+    const pages = await Promise.all([streamToChunks("/reviewers/3/comments"), streamToChunks("/reviewers/5/comments")]);
+    const [firstData, secondData] = pages.map(chunks => chunks[chunks.length - 1]);
+
+    expect(firstData).toContain(`"reviewer/3":{"$resource":"success"`);
+    expect(firstData).not.toContain(`"reviewer/5"`);
+    expect(secondData).toContain(`"reviewer/5":{"$resource":"success"`);
+    expect(secondData).not.toContain(`"reviewer/3"`);
+    expect(resourceCache.has("reviewer/3")).toBe(false);
+  });
+});
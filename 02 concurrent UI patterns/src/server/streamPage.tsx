@@ -0,0 +1,107 @@
+import * as React from "react";
+import { renderToString } from "react-dom/server";
+import { ServerResponse, OutgoingHttpHeaders } from "http";
+import { App } from "../app";
+import { createPreloader } from "../router";
+import { ROUTES } from "../routes";
+import {
+  ApiScope, createApiScope, withApiScope, getPendingResources, collectServerRenderedData,
+  serializeServerRenderedData, setTimelinePage,
+} from "../api";
+
+// The html page around the root element, split where the markup goes
+export interface PageTemplate {
+  beforeRoot: string;
+  afterRoot: string;
+}
+
+// What the page is streamed into, the ServerResponse of the http server. writeHead does not need to
+// return the response, so that any writable stream with a writeHead can stand in for it
+export type PageResponse = Pick<ServerResponse, "write" | "end"> & {
+  writeHead(statusCode: number, headers?: OutgoingHttpHeaders): void;
+};
+
+// Gives up waiting on requests that take longer, e.g. with the "hang" latency option, and lets the
+// client finish the page
+const RENDER_TIMEOUT_MS = 10000;
+
+const ROOT_PLACEHOLDER = `<div id="root"></div>`;
+
+const SWAP_FUNCTION = "swapServerRenderedMarkup";
+
+// Replaces the markup of the root element with the content of a later render
+const swapScript = `<script>function ${SWAP_FUNCTION}(id) {
+  var template = document.getElementById(id);
+  document.getElementById("root").innerHTML = template.innerHTML;
+  template.parentNode.removeChild(template);
+}</script>`;
+
+export const splitTemplate = (html: string): PageTemplate => {
+  const index = html.indexOf(ROOT_PLACEHOLDER);
+  if (index === -1) {
+    throw new Error(`The page template has no ${ROOT_PLACEHOLDER}`);
+  }
+  return {
+    beforeRoot: html.slice(0, index),
+    afterRoot: html.slice(index + ROOT_PLACEHOLDER.length),
+  };
+};
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Resolves once any of the resources settles, successfully or not
+const waitForAnyResource = (scope: ApiScope) =>
+  Promise.race(getPendingResources(scope).map(resource => resource.toPromise().then(() => undefined, () => undefined)));
+
+// The legacy server renderer shows the fallback of every Suspense boundary that is still waiting for
+// data and cannot fill it in later. So the page is rendered again every time one of its resources
+// settles, and each render is streamed to replace the previous one: the reviewer, the comments and
+// the responses show up one by one as the mock backend answers. Once nothing is pending, the data
+// everything was rendered with is written into the page for the client to hydrate from.
+export const streamPage = async (url: string, template: PageTemplate, response: PageResponse) => {
+  // Every request starts from empty caches of its own, so pages rendered at the same time do not wait
+  // for or invalidate each other
+  const scope = createApiScope();
+  const preloader = createPreloader(ROUTES);
+  const render = () => withApiScope(scope, () => {
+    setTimelinePage(url);
+    return renderToString(<App location={url} preloader={preloader} />);
+  });
+
+  response.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+  response.write(template.beforeRoot);
+
+  let markup: string;
+  try {
+    markup = render();
+  } catch (error) {
+    console.error(`Rendering ${url} failed, the client renders it instead`, error);
+    response.write(ROOT_PLACEHOLDER);
+    response.end(`<script>${serializeServerRenderedData(collectServerRenderedData(false, scope))}</script>${template.afterRoot}`);
+    return;
+  }
+  response.write(`<div id="root">${markup}</div>${swapScript}`);
+
+  const deadline = Date.now() + RENDER_TIMEOUT_MS;
+  let update = 0;
+  while (getPendingResources(scope).length > 0 && Date.now() < deadline) {
+    await Promise.race([waitForAnyResource(scope), delay(deadline - Date.now())]);
+    let nextMarkup: string;
+    try {
+      nextMarkup = render();
+    } catch (error) {
+      // The boundaries still showing a fallback are rendered by the client
+      console.error(`Rendering ${url} again failed, the client finishes it`, error);
+      break;
+    }
+    // Resources outside of any boundary shown yet, or still behind a fallback, change nothing
+    if (nextMarkup === markup) {
+      continue;
+    }
+    markup = nextMarkup;
+    const id = `server-rendered-update-${update++}`;
+    response.write(`<template id="${id}">${markup}</template><script>${SWAP_FUNCTION}("${id}")</script>`);
+  }
+
+  response.end(`<script>${serializeServerRenderedData(collectServerRenderedData(true, scope))}</script>${template.afterRoot}`);
+};
@@ -0,0 +1,19 @@
+import "@testing-library/jest-dom";
+import { resourceCache, reviewerDirectoryCache, setLatencyProfile, LATENCY_PRESETS } from "./api";
+
+// jsdom never loads images, so avatars show their initials right away instead of after the image timeout
+jest.mock("./api/imageResource", () => ({
+  ...jest.requireActual("./api/imageResource"),
+  getImageResource: () => ({ read: () => false }),
+}));
+
+beforeEach(() => {
+  resourceCache.invalidateAll();
+  reviewerDirectoryCache.invalidateAll();
+  localStorage.clear();
+  setLatencyProfile(LATENCY_PRESETS.default);
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
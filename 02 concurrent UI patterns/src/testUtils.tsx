@@ -0,0 +1,91 @@
+import * as React from "react";
+import * as ReactDOM from "react-dom";
+import * as Scheduler from "scheduler";
+import { act } from "react-dom/test-utils";
+import { getQueriesForElement } from "@testing-library/react";
+import { MemoryRouter } from "react-router-dom";
+import { createPreloader, PreloadRoutes } from "./router";
+import { ROUTES } from "./routes";
+import { NavigationProgressBar } from "./components";
+import { PendingTransitionsProvider } from "./hooks";
+
+const mountedRoots = new Set<ReactDOM.Root>();
+
+beforeEach(() => {
+  // React asks for every update to be wrapped in act(), which the helpers below avoid on purpose
+  const consoleError = console.error;
+  jest.spyOn(console, "error").mockImplementation((message, ...args) => {
+    if (typeof message === "string" && message.includes("not wrapped in act(...)")) {
+      return;
+    }
+    consoleError(message, ...args);
+  });
+});
+
+afterEach(() => {
+  act(() => {
+    mountedRoots.forEach(root => root.unmount());
+  });
+  mountedRoots.clear();
+  document.body.innerHTML = "";
+});
+
+// Testing Library renders in legacy mode, but transitions and SuspenseList need a concurrent root
+export const renderConcurrent = (ui: React.ReactElement) => {
+  const container = document.createElement("div");
+  document.body.appendChild(container);
+  const root = ReactDOM.createRoot(container);
+  mountedRoots.add(root);
+  act(() => {
+    root.render(ui);
+  });
+  return { container, ...getQueriesForElement(container) };
+};
+
+// Renders the whole route table at the given url like App does, so pages receive their preloaded
+// resources and report pending transitions to the progress bar
+export const renderRoute = (url: string) =>
+  renderConcurrent(
+    <PendingTransitionsProvider>
+      <NavigationProgressBar />
+      <MemoryRouter initialEntries={[url]}>
+        <PreloadRoutes routes={ROUTES} preloader={createPreloader(ROUTES)} />
+      </MemoryRouter>
+    </PendingTransitionsProvider>
+  );
+
+// Fake timers also replace setImmediate, so the real one is used to let pending promise callbacks run
+export const flushPromises = () => new Promise(resolve => jest.requireActual("timers").setImmediate(resolve));
+
+// Settles every mock request, including those only started once an earlier one has resolved
+export const runAllRequests = async () => {
+  for (let round = 0; round < 10; round++) {
+    jest.runOnlyPendingTimers();
+    await flushPromises();
+  }
+};
+
+// act() commits suspended transitions right away, so after the first render React's work is flushed
+// outside of it, the way the browser would run it
+const flushScheduledWork = () => {
+  Scheduler.unstable_flushAllWithoutAsserting();
+};
+
+const TIME_STEP_MS = 10;
+
+// Moves both the mock backend (fake timers) and React's clock (mock scheduler) forward. Time passes
+// in small steps, so requests started once an earlier response arrives get their own timers in time
+export const advanceTime = async (ms: number) => {
+  for (let elapsed = 0; elapsed < ms; elapsed += TIME_STEP_MS) {
+    const step = Math.min(TIME_STEP_MS, ms - elapsed);
+    Scheduler.unstable_advanceTime(step);
+    jest.advanceTimersByTime(step);
+    await flushPromises();
+    flushScheduledWork();
+  }
+};
+
+export const click = (element: HTMLElement) => {
+  element.click();
+  flushScheduledWork();
+};
@@ -13,7 +13,9 @@ module.exports = {
   entry: ["@babel/polyfill", "./index.tsx"],
   output: {
     path: path.join(basePath, "dist"),
-    filename: "bundle.js"
+    filename: "bundle.js",
+    // Pages rendered by the server live under nested paths
+    publicPath: "/"
   },
   devtool: "eval-source-map",
   devServer: {
@@ -48,6 +50,9 @@ module.exports = {
     ]
   },
   plugins: [
+    new webpack.DefinePlugin({
+      "process.env.API_URL": JSON.stringify(process.env.API_URL || "")
+    }),
     new HtmlWebpackPlugin({
       filename: "index.html",
       template: "index.html",
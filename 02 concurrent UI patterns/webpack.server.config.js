@@ -0,0 +1,40 @@
+var webpack = require("webpack");
+var path = require("path");
+
+var basePath = __dirname;
+
+// Bundles server.tsx into dist/server.js, next to the client bundle it serves
+module.exports = {
+  context: path.join(basePath, "src"),
+  target: "node",
+  node: {
+    __dirname: false
+  },
+  resolve: {
+    extensions: [".js", ".ts", ".tsx"]
+  },
+  entry: ["@babel/polyfill", "./server/index.tsx"],
+  output: {
+    path: path.join(basePath, "dist"),
+    filename: "server.js"
+  },
+  devtool: "source-map",
+  module: {
+    rules: [
+      {
+        test: /\.(ts|tsx)$/,
+        exclude: /node_modules/,
+        loader: "awesome-typescript-loader",
+        options: {
+          useBabel: true,
+          babelCore: "@babel/core"
+        }
+      }
+    ]
+  },
+  plugins: [
+    new webpack.DefinePlugin({
+      "process.env.API_URL": JSON.stringify(process.env.API_URL || "")
+    })
+  ]
+};